@@ -1,6 +1,8 @@
-import { afterEach, describe, expect, test } from "bun:test";
-import { cleanup, render, screen, waitFor } from "@testing-library/react";
-import { Await } from "./Await";
+import { afterEach, beforeEach, describe, expect, jest, mock, spyOn, test } from "bun:test";
+import { act, cleanup, render, renderHook, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { Await, TimeoutError, useAwait } from "./Await";
+import { AwaitCache, AwaitCacheStore } from "./AwaitCache";
 
 // 每个测试后清理
 afterEach(() => {
@@ -240,6 +242,1285 @@ describe("Await 组件", () => {
         });
     });
 
+    describe("delay 与 minDuration", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        // 推进时间并等待 React 更新
+        async function advance(ms: number) {
+            await act(async () => {
+                jest.advanceTimersByTime(ms);
+            });
+        }
+
+        test("delay 结束前不显示 loading", async () => {
+            const { promise } = createControllablePromise<string>();
+            const { container } = render(
+                <Await promise={promise} loading={<span>Loading...</span>} delay={200}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            expect(container.textContent).toBe("");
+
+            await advance(199);
+            expect(screen.queryByText("Loading...")).toBeNull();
+
+            await advance(1);
+            expect(screen.getByText("Loading...")).toBeTruthy();
+        });
+
+        test("在 delay 内 resolve 时从不显示 loading", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Await promise={promise} loading={<span>Loading...</span>} delay={200}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await advance(100);
+            await act(async () => {
+                resolve("Fast");
+            });
+            expect(screen.getByText("Fast")).toBeTruthy();
+
+            await advance(200);
+            expect(screen.queryByText("Loading...")).toBeNull();
+        });
+
+        test("minDuration 保证 loading 至少显示指定时间", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Await promise={promise} loading={<span>Loading...</span>} minDuration={500}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await advance(100);
+            await act(async () => {
+                resolve("Done");
+            });
+            // 已显示 100ms，还需要保持 400ms
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await advance(399);
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await advance(1);
+            expect(screen.getByText("Done")).toBeTruthy();
+        });
+
+        test("超过 minDuration 后 resolve 立即渲染", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Await promise={promise} loading={<span>Loading...</span>} minDuration={200}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await advance(300);
+            await act(async () => {
+                resolve("Done");
+            });
+            expect(screen.getByText("Done")).toBeTruthy();
+        });
+
+        test("minDuration 从 delay 结束后开始计算", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Await promise={promise} loading={<span>Loading...</span>} delay={100} minDuration={300}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await advance(150);
+            expect(screen.getByText("Loading...")).toBeTruthy();
+            await act(async () => {
+                resolve("Done");
+            });
+
+            // loading 已显示 50ms，还需要保持 250ms
+            await advance(249);
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await advance(1);
+            expect(screen.getByText("Done")).toBeTruthy();
+        });
+
+        test("minDuration 同样适用于 rejected", async () => {
+            const { promise, reject } = createControllablePromise<string>();
+            render(
+                <Await
+                    promise={promise}
+                    loading={<span>Loading...</span>}
+                    error={<span>Failed</span>}
+                    minDuration={200}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await act(async () => {
+                reject(new Error("Failed"));
+            });
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await advance(200);
+            expect(screen.getByText("Failed")).toBeTruthy();
+        });
+    });
+
+    describe("timeout", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        test("超时后将 TimeoutError 传给 error", async () => {
+            const { promise } = createControllablePromise<string>();
+            render(
+                <Await
+                    promise={promise}
+                    timeout={1000}
+                    loading={<span>Loading...</span>}
+                    error={(err) => (
+                        <span>{err instanceof TimeoutError ? `Timed out after ${err.timeout}ms` : "Other error"}</span>
+                    )}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await act(async () => {
+                jest.advanceTimersByTime(999);
+            });
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await act(async () => {
+                jest.advanceTimersByTime(1);
+            });
+            expect(screen.getByText("Timed out after 1000ms")).toBeTruthy();
+        });
+
+        test("超时后忽略原 Promise 的结果", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Await promise={promise} timeout={100} error={<span>Timeout</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await act(async () => {
+                jest.advanceTimersByTime(100);
+            });
+            await act(async () => {
+                resolve("Too late");
+            });
+            expect(screen.getByText("Timeout")).toBeTruthy();
+            expect(screen.queryByText("Too late")).toBeNull();
+        });
+
+        test("超时前 resolve 正常渲染", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Await promise={promise} timeout={100} error={<span>Timeout</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await act(async () => {
+                resolve("In time");
+            });
+            await act(async () => {
+                jest.advanceTimersByTime(100);
+            });
+            expect(screen.getByText("In time")).toBeTruthy();
+        });
+
+        test("超时时中止 fetcher 的请求", async () => {
+            let receivedSignal: AbortSignal | undefined;
+            render(
+                <Await
+                    fetcher={(signal) => {
+                        receivedSignal = signal;
+                        return createControllablePromise<string>().promise;
+                    }}
+                    timeout={100}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await act(async () => {
+                jest.advanceTimersByTime(100);
+            });
+            expect(receivedSignal?.aborted).toBe(true);
+            expect(receivedSignal?.reason).toBeInstanceOf(TimeoutError);
+        });
+
+        test("超时的尝试会按 retries 重试", async () => {
+            let calls = 0;
+            const factory = () => {
+                calls++;
+                return calls === 1 ? createControllablePromise<string>().promise : Promise.resolve("Second attempt");
+            };
+            render(
+                <Await promise={factory} timeout={100} retries={1} error={<span>Timeout</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await act(async () => {
+                jest.advanceTimersByTime(100);
+            });
+            await act(async () => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("Second attempt")).toBeTruthy();
+            expect(calls).toBe(2);
+        });
+    });
+
+    describe("keepPrevious", () => {
+        test("Promise 变化时继续渲染旧值并传入 isRefreshing", async () => {
+            const { promise: promise1, resolve: resolve1 } = createControllablePromise<string>();
+            const { promise: promise2, resolve: resolve2 } = createControllablePromise<string>();
+            const renderWith = (promise: Promise<string>) => (
+                <Await promise={promise} loading={<span>Loading...</span>} keepPrevious>
+                    {(data, isRefreshing) => (
+                        <span>
+                            Data: {data}
+                            {isRefreshing ? " (refreshing)" : ""}
+                        </span>
+                    )}
+                </Await>
+            );
+
+            const { rerender } = render(renderWith(promise1));
+            // 首次加载没有旧值，显示 loading
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            resolve1("First");
+            await waitFor(() => {
+                expect(screen.getByText("Data: First")).toBeTruthy();
+            });
+
+            rerender(renderWith(promise2));
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("Data: First (refreshing)")).toBeTruthy();
+
+            resolve2("Second");
+            await waitFor(() => {
+                expect(screen.getByText("Data: Second")).toBeTruthy();
+            });
+        });
+
+        test("同步值之后切换到 Promise 时保留同步值", () => {
+            const { promise } = createControllablePromise<string>();
+            const renderWith = (value: Promise<string> | string) => (
+                <Await promise={value} loading={<span>Loading...</span>} keepPrevious>
+                    {(data, isRefreshing) => <span>{isRefreshing ? `Stale: ${data}` : data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWith("Cached"));
+            expect(screen.getByText("Cached")).toBeTruthy();
+
+            rerender(renderWith(promise));
+            expect(screen.getByText("Stale: Cached")).toBeTruthy();
+        });
+
+        test("新 Promise rejected 时显示 error", async () => {
+            const { promise: promise1, resolve: resolve1 } = createControllablePromise<string>();
+            const { promise: promise2, reject: reject2 } = createControllablePromise<string>();
+            const renderWith = (promise: Promise<string>) => (
+                <Await promise={promise} error={<span>Failed</span>} keepPrevious>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWith(promise1));
+            resolve1("First");
+            await waitFor(() => {
+                expect(screen.getByText("First")).toBeTruthy();
+            });
+
+            rerender(renderWith(promise2));
+            reject2(new Error("Failed"));
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+            expect(screen.queryByText("First")).toBeNull();
+        });
+
+        test("未开启 keepPrevious 时回到 loading", async () => {
+            const { promise: promise1, resolve: resolve1 } = createControllablePromise<string>();
+            const { promise: promise2 } = createControllablePromise<string>();
+            const renderWith = (promise: Promise<string>) => (
+                <Await promise={promise} loading={<span>Loading...</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWith(promise1));
+            resolve1("First");
+            await waitFor(() => {
+                expect(screen.getByText("First")).toBeTruthy();
+            });
+
+            rerender(renderWith(promise2));
+            expect(screen.getByText("Loading...")).toBeTruthy();
+        });
+    });
+
+    describe("重试", () => {
+        test("工厂函数在挂载时被调用", async () => {
+            const factory = mock(() => delay(10, "From factory"));
+
+            render(
+                <Await promise={factory} loading={<span>Loading...</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            expect(screen.getByText("Loading...")).toBeTruthy();
+            await waitFor(() => {
+                expect(screen.getByText("From factory")).toBeTruthy();
+            });
+            expect(factory).toHaveBeenCalledTimes(1);
+        });
+
+        test("工厂函数返回非 Promise 的值时视为 fulfilled", async () => {
+            const factory = mock(() => "Plain value");
+
+            render(
+                <Await promise={factory} loading={<span>Loading...</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Plain value")).toBeTruthy();
+            });
+            expect(factory).toHaveBeenCalledTimes(1);
+        });
+
+        test("工厂函数同步抛出错误时显示 error", async () => {
+            const factory = (): Promise<string> => {
+                throw new Error("Sync failure");
+            };
+
+            render(
+                <Await promise={factory} error={(err) => <span>Error: {(err as Error).message}</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Error: Sync failure")).toBeTruthy();
+            });
+        });
+
+        test("失败后按 retries 次数自动重试", async () => {
+            let calls = 0;
+            const factory = mock(() => {
+                calls++;
+                return calls < 3 ? delayReject(5, new Error("Flaky")) : delay(5, "Recovered");
+            });
+
+            render(
+                <Await promise={factory} retries={2} loading={<span>Loading...</span>} error={<span>Failed</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Recovered")).toBeTruthy();
+            });
+            expect(factory).toHaveBeenCalledTimes(3);
+            expect(screen.queryByText("Failed")).toBeNull();
+        });
+
+        test("超过重试次数后显示 error", async () => {
+            const factory = mock(() => delayReject(5, new Error("Always fails")));
+
+            render(
+                <Await promise={factory} retries={2} loading={<span>Loading...</span>} error={<span>Failed</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            // 重试期间保持 loading
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+            expect(factory).toHaveBeenCalledTimes(3);
+        });
+
+        test("retryDelay 配合指数退避延迟重试", async () => {
+            const timestamps: number[] = [];
+            const factory = () => {
+                timestamps.push(Date.now());
+                return Promise.reject(new Error("Failed"));
+            };
+
+            render(
+                <Await promise={factory} retries={2} retryDelay={20} backoff="exponential" error={<span>Failed</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+            expect(timestamps).toHaveLength(3);
+            // 第一次重试延迟 20ms，第二次重试延迟 40ms
+            expect(timestamps[1] - timestamps[0]).toBeGreaterThanOrEqual(15);
+            expect(timestamps[2] - timestamps[1]).toBeGreaterThanOrEqual(35);
+        });
+
+        test("error 函数接收 retry，调用后重新执行工厂函数", async () => {
+            // 使用可控的 Promise，断言 loading 时第二次请求不会已经完成
+            const second = createControllablePromise<string>();
+            let calls = 0;
+            const factory = mock(() => {
+                calls++;
+                return calls === 1 ? delayReject(5, new Error("First failure")) : second.promise;
+            });
+
+            render(
+                <Await
+                    promise={factory}
+                    loading={<span>Loading...</span>}
+                    error={(_, retry) => (
+                        <button type="button" onClick={retry}>
+                            Retry
+                        </button>
+                    )}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Retry")).toBeTruthy();
+            });
+
+            await userEvent.click(screen.getByText("Retry"));
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            second.resolve("Second try");
+            await waitFor(() => {
+                expect(screen.getByText("Second try")).toBeTruthy();
+            });
+            expect(factory).toHaveBeenCalledTimes(2);
+        });
+
+        test("普通 Promise 不会自动重试", async () => {
+            const promise = delayReject(5, new Error("Failed"));
+
+            render(
+                <Await promise={promise} retries={3} loading={<span>Loading...</span>} error={<span>Failed</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("fetcher 与取消", () => {
+        test("fetcher 接收 AbortSignal 并渲染结果", async () => {
+            const fetcher = mock((signal: AbortSignal) => {
+                expect(signal).toBeInstanceOf(AbortSignal);
+                return delay(5, "Fetched");
+            });
+
+            render(
+                <Await fetcher={fetcher} loading={<span>Loading...</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            expect(screen.getByText("Loading...")).toBeTruthy();
+            await waitFor(() => {
+                expect(screen.getByText("Fetched")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test("卸载时中止请求", () => {
+            let receivedSignal: AbortSignal | undefined;
+            const { unmount } = render(
+                <Await
+                    fetcher={(signal) => {
+                        receivedSignal = signal;
+                        return createControllablePromise<string>().promise;
+                    }}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            expect(receivedSignal?.aborted).toBe(false);
+            unmount();
+            expect(receivedSignal?.aborted).toBe(true);
+        });
+
+        test("deps 变化时中止上一次请求并重新请求", async () => {
+            const signals: AbortSignal[] = [];
+            const renderWithId = (id: number) => (
+                <Await
+                    fetcher={(signal) => {
+                        signals.push(signal);
+                        return delay(5, `User ${id}`);
+                    }}
+                    deps={[id]}
+                    loading={<span>Loading...</span>}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWithId(1));
+            rerender(renderWithId(2));
+
+            expect(signals).toHaveLength(2);
+            expect(signals[0].aborted).toBe(true);
+            expect(signals[1].aborted).toBe(false);
+
+            await waitFor(() => {
+                expect(screen.getByText("User 2")).toBeTruthy();
+            });
+            expect(screen.queryByText("User 1")).toBeNull();
+        });
+
+        test("deps 不变时内联 fetcher 不会重复请求", async () => {
+            const fetcher = mock(() => delay(5, "Once"));
+            const renderAwait = () => (
+                <Await fetcher={() => fetcher()} deps={["static"]}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderAwait());
+            rerender(renderAwait());
+            rerender(renderAwait());
+
+            await waitFor(() => {
+                expect(screen.getByText("Once")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test("deps 长度变化时重新请求", async () => {
+            const consoleError = spyOn(console, "error").mockImplementation(() => {});
+            const fetcher = mock((signal: AbortSignal) => delay(5, signal));
+            const renderWithDeps = (deps: number[]) => (
+                <Await fetcher={fetcher} deps={deps}>
+                    <span>Done</span>
+                </Await>
+            );
+
+            const { rerender } = render(renderWithDeps([1]));
+            rerender(renderWithDeps([1, 2]));
+            expect(fetcher).toHaveBeenCalledTimes(2);
+            rerender(renderWithDeps([1]));
+            expect(fetcher).toHaveBeenCalledTimes(3);
+
+            await waitFor(() => {
+                expect(screen.getByText("Done")).toBeTruthy();
+            });
+            // 不会出现依赖项长度变化的警告
+            expect(consoleError).not.toHaveBeenCalled();
+            consoleError.mockRestore();
+        });
+
+        test("fetcher 失败时支持自动重试", async () => {
+            let calls = 0;
+            const fetcher = mock(() => {
+                calls++;
+                return calls === 1 ? delayReject(5, new Error("Flaky")) : delay(5, "Recovered");
+            });
+
+            render(
+                <Await fetcher={fetcher} retries={1} error={<span>Failed</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Recovered")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test("中止导致的 rejection 不会显示 error", async () => {
+            const renderWithId = (id: number) => (
+                <Await
+                    fetcher={(signal) =>
+                        new Promise<string>((resolve, reject) => {
+                            signal.addEventListener("abort", () => reject(new Error("Aborted")));
+                            setTimeout(() => resolve(`Done ${id}`), 10);
+                        })
+                    }
+                    deps={[id]}
+                    error={<span>Failed</span>}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWithId(1));
+            rerender(renderWithId(2));
+
+            await waitFor(() => {
+                expect(screen.getByText("Done 2")).toBeTruthy();
+            });
+            expect(screen.queryByText("Failed")).toBeNull();
+        });
+    });
+
+    describe("进度", () => {
+        test("loading 函数接收工厂函数上报的进度", async () => {
+            let report: (progress: number) => void = () => {};
+            const { promise, resolve } = createControllablePromise<string>();
+
+            render(
+                <Await
+                    promise={(onProgress) => {
+                        report = onProgress;
+                        return promise;
+                    }}
+                    loading={(progress) => <span>Progress: {progress === undefined ? "-" : `${progress * 100}%`}</span>}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            expect(screen.getByText("Progress: -")).toBeTruthy();
+
+            act(() => {
+                report(0.5);
+            });
+            expect(screen.getByText("Progress: 50%")).toBeTruthy();
+
+            resolve("Uploaded");
+            await waitFor(() => {
+                expect(screen.getByText("Uploaded")).toBeTruthy();
+            });
+        });
+
+        test("内联工厂函数只在 deps 变化时重新执行", () => {
+            const upload = mock((_file: string) => createControllablePromise<string>().promise);
+            const renderWith = (file: string) => (
+                <Await promise={() => upload(file)} deps={[file]} loading={<span>Uploading...</span>}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWith("a.png"));
+            rerender(renderWith("a.png"));
+            rerender(renderWith("a.png"));
+            expect(upload).toHaveBeenCalledTimes(1);
+
+            rerender(renderWith("b.png"));
+            expect(upload).toHaveBeenCalledTimes(2);
+            expect(upload).toHaveBeenLastCalledWith("b.png");
+        });
+
+        test("fetcher 通过第二个参数上报进度", () => {
+            let report: (progress: number) => void = () => {};
+
+            render(
+                <Await
+                    fetcher={(_, onProgress) => {
+                        report = onProgress;
+                        return createControllablePromise<string>().promise;
+                    }}
+                    loading={(progress) => <span>Loaded {progress ?? 0}</span>}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            act(() => {
+                report(42);
+            });
+            expect(screen.getByText("Loaded 42")).toBeTruthy();
+        });
+
+        test("重试时重置进度，并忽略旧尝试的上报", async () => {
+            const reporters: ((progress: number) => void)[] = [];
+            const promises = [createControllablePromise<string>(), createControllablePromise<string>()];
+
+            render(
+                <Await
+                    promise={(onProgress) => {
+                        reporters.push(onProgress);
+                        return promises[reporters.length - 1].promise;
+                    }}
+                    loading={(progress) => <span>Progress: {progress ?? "none"}</span>}
+                    error={(_, retry) => (
+                        <button type="button" onClick={retry}>
+                            Retry
+                        </button>
+                    )}
+                >
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            act(() => {
+                reporters[0](0.3);
+            });
+            promises[0].reject(new Error("Failed"));
+            await waitFor(() => {
+                expect(screen.getByText("Retry")).toBeTruthy();
+            });
+
+            await userEvent.click(screen.getByText("Retry"));
+            expect(screen.getByText("Progress: none")).toBeTruthy();
+
+            act(() => {
+                reporters[0](0.9);
+            });
+            expect(screen.getByText("Progress: none")).toBeTruthy();
+        });
+    });
+
+    describe("生命周期回调", () => {
+        test("resolve 时调用 onResolve 和 onSettled", async () => {
+            const onResolve = mock((_value: string) => {});
+            const onReject = mock((_error: unknown) => {});
+            const onSettled = mock(() => {});
+
+            render(
+                <Await promise={delay(5, "Done")} onResolve={onResolve} onReject={onReject} onSettled={onSettled}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Done")).toBeTruthy();
+            });
+            expect(onResolve).toHaveBeenCalledTimes(1);
+            expect(onResolve).toHaveBeenCalledWith("Done");
+            expect(onReject).not.toHaveBeenCalled();
+            expect(onSettled).toHaveBeenCalledWith({ status: "fulfilled", value: "Done" });
+        });
+
+        test("rejected 时调用 onReject 和 onSettled", async () => {
+            const error = new Error("Failed");
+            const onResolve = mock(() => {});
+            const onReject = mock((_error: unknown) => {});
+            const onSettled = mock(() => {});
+
+            render(
+                <Await
+                    promise={delayReject(5, error)}
+                    onResolve={onResolve}
+                    onReject={onReject}
+                    onSettled={onSettled}
+                    error={<span>Failed</span>}
+                >
+                    {() => <span>Success</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+            expect(onResolve).not.toHaveBeenCalled();
+            expect(onReject).toHaveBeenCalledWith(error);
+            expect(onSettled).toHaveBeenCalledWith({ status: "rejected", error });
+        });
+
+        test("回调抛出错误时仍更新状态，错误异步重新抛出", async () => {
+            const error = new Error("Callback failed");
+            const onSettled = mock(() => {});
+            const rethrown: (() => void)[] = [];
+            // 拦截重新抛出错误的微任务，避免成为未处理的错误
+            const queueMicrotaskSpy = spyOn(globalThis, "queueMicrotask").mockImplementation((callback) => {
+                rethrown.push(callback);
+            });
+
+            try {
+                render(
+                    <Await
+                        promise={delay(5, "Done")}
+                        onResolve={() => {
+                            throw error;
+                        }}
+                        onSettled={onSettled}
+                        loading={<span>Loading...</span>}
+                    >
+                        {(data) => <span>{data}</span>}
+                    </Await>
+                );
+
+                await waitFor(() => {
+                    expect(screen.getByText("Done")).toBeTruthy();
+                });
+            } finally {
+                queueMicrotaskSpy.mockRestore();
+            }
+            expect(onSettled).toHaveBeenCalledTimes(1);
+            expect(rethrown).toHaveLength(1);
+            expect(rethrown[0]).toThrow(error);
+        });
+
+        test("自动重试期间不调用 onReject", async () => {
+            const onReject = mock(() => {});
+            const factory = () => delayReject(5, new Error("Always fails"));
+
+            render(
+                <Await promise={factory} retries={2} onReject={onReject} error={<span>Failed</span>}>
+                    {() => <span>Success</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+            expect(onReject).toHaveBeenCalledTimes(1);
+        });
+
+        test("重新渲染不会重复调用回调，回调变化也不会重新等待", async () => {
+            const promise = delay(5, "Done");
+            const first = mock(() => {});
+            const second = mock(() => {});
+
+            const { rerender } = render(
+                <Await promise={promise} onResolve={first}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+            rerender(
+                <Await promise={promise} onResolve={second}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Done")).toBeTruthy();
+            });
+            rerender(
+                <Await promise={promise} onResolve={second}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            // 使用最新的回调，且只调用一次
+            expect(first).not.toHaveBeenCalled();
+            expect(second).toHaveBeenCalledTimes(1);
+        });
+
+        test("被替换的旧 Promise 不会触发回调", async () => {
+            const stale = createControllablePromise<string>();
+            const current = createControllablePromise<string>();
+            const onResolve = mock((_value: string) => {});
+            const renderWith = (promise: Promise<string>) => (
+                <Await promise={promise} onResolve={onResolve}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+
+            const { rerender } = render(renderWith(stale.promise));
+            rerender(renderWith(current.promise));
+
+            stale.resolve("Stale");
+            current.resolve("Current");
+            await waitFor(() => {
+                expect(screen.getByText("Current")).toBeTruthy();
+            });
+            expect(onResolve).toHaveBeenCalledTimes(1);
+            expect(onResolve).toHaveBeenCalledWith("Current");
+        });
+
+        test("卸载后不会触发回调", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            const onSettled = mock(() => {});
+
+            const { unmount } = render(
+                <Await promise={promise} onSettled={onSettled}>
+                    {(data) => <span>{data}</span>}
+                </Await>
+            );
+            unmount();
+
+            resolve("Late");
+            await delay(5, null);
+            expect(onSettled).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("cacheKey", () => {
+        test("命中缓存时同步渲染且不调用 fetcher", () => {
+            const fetcher = mock(() => delay(5, "Fresh"));
+            const store = new AwaitCacheStore();
+            store.set("shared", "Cached");
+
+            render(
+                <AwaitCache store={store}>
+                    <Await fetcher={fetcher} cacheKey="shared" loading={<span>Loading...</span>}>
+                        {(data) => <span>Data: {data}</span>}
+                    </Await>
+                </AwaitCache>
+            );
+
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("Data: Cached")).toBeTruthy();
+            expect(fetcher).not.toHaveBeenCalled();
+        });
+
+        test("同一 provider 下后挂载的实例复用先前的结果", async () => {
+            const fetcher = mock(() => delay(5, "Profile"));
+            const store = new AwaitCacheStore();
+            const renderWith = (showSecond: boolean) => (
+                <AwaitCache store={store}>
+                    <Await fetcher={fetcher} cacheKey="profile" loading={<span>Loading...</span>}>
+                        {(data) => <span>A: {data}</span>}
+                    </Await>
+                    {showSecond && (
+                        <Await fetcher={fetcher} cacheKey="profile" loading={<span>Loading B...</span>}>
+                            {(data) => <span>B: {data}</span>}
+                        </Await>
+                    )}
+                </AwaitCache>
+            );
+
+            const { rerender } = render(renderWith(false));
+            await waitFor(() => {
+                expect(screen.getByText("A: Profile")).toBeTruthy();
+            });
+
+            rerender(renderWith(true));
+            expect(screen.queryByText("Loading B...")).toBeNull();
+            expect(screen.getByText("B: Profile")).toBeTruthy();
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test("同时挂载的实例共享进行中的请求", async () => {
+            let calls = 0;
+            const fetcher = mock(() => {
+                calls++;
+                return delay(5, `Version ${calls}`);
+            });
+            const store = new AwaitCacheStore();
+
+            render(
+                <AwaitCache store={store}>
+                    <Await
+                        fetcher={fetcher}
+                        cacheKey="joined"
+                        render={(state, { retry }) => (
+                            <div>
+                                <span>A: {state.status === "fulfilled" ? state.value : state.status}</span>
+                                <button type="button" onClick={retry}>
+                                    Retry
+                                </button>
+                            </div>
+                        )}
+                    />
+                    <Await fetcher={fetcher} cacheKey="joined" loading={<span>Loading B...</span>}>
+                        {(data) => <span>B: {data}</span>}
+                    </Await>
+                </AwaitCache>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("A: Version 1")).toBeTruthy();
+                expect(screen.getByText("B: Version 1")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(1);
+
+            // 失效后所有实例重新加载并加入同一个请求
+            act(() => {
+                store.invalidate("joined");
+            });
+            await waitFor(() => {
+                expect(screen.getByText("A: Version 2")).toBeTruthy();
+                expect(screen.getByText("B: Version 2")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(2);
+
+            // 一个实例重试时，其他实例一起更新
+            await userEvent.click(screen.getByText("Retry"));
+            await waitFor(() => {
+                expect(screen.getByText("A: Version 3")).toBeTruthy();
+                expect(screen.getByText("B: Version 3")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(3);
+        });
+
+        test("所有实例卸载后才中止共享的请求", async () => {
+            const signals: AbortSignal[] = [];
+            const fetcher = (signal: AbortSignal) => {
+                signals.push(signal);
+                return new Promise<string>(() => {});
+            };
+            const store = new AwaitCacheStore();
+            const renderWith = (count: number) => (
+                <AwaitCache store={store}>
+                    {count > 0 && (
+                        <Await fetcher={fetcher} cacheKey="slow">
+                            {(data) => <span>{data}</span>}
+                        </Await>
+                    )}
+                    {count > 1 && (
+                        <Await fetcher={fetcher} cacheKey="slow">
+                            {(data) => <span>{data}</span>}
+                        </Await>
+                    )}
+                </AwaitCache>
+            );
+
+            const { rerender } = render(renderWith(2));
+            expect(signals).toHaveLength(1);
+
+            rerender(renderWith(1));
+            expect(signals[0].aborted).toBe(false);
+
+            rerender(renderWith(0));
+            expect(signals[0].aborted).toBe(true);
+        });
+
+        test("rejected 的结果不会被缓存", async () => {
+            const store = new AwaitCacheStore();
+            render(
+                <AwaitCache store={store}>
+                    <Await promise={delayReject(5, new Error("Failed"))} cacheKey="failed" error={<span>Failed</span>}>
+                        {(data) => <span>{data}</span>}
+                    </Await>
+                </AwaitCache>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Failed")).toBeTruthy();
+            });
+            expect(store.get("failed")).toBeUndefined();
+        });
+
+        test("invalidate 后已挂载的实例重新加载", async () => {
+            let calls = 0;
+            const fetcher = mock(() => {
+                calls++;
+                return delay(5, `Version ${calls}`);
+            });
+            const store = new AwaitCacheStore();
+
+            render(
+                <AwaitCache store={store}>
+                    <Await fetcher={fetcher} cacheKey="versioned" loading={<span>Loading...</span>}>
+                        {(data) => <span>{data}</span>}
+                    </Await>
+                </AwaitCache>
+            );
+            await waitFor(() => {
+                expect(screen.getByText("Version 1")).toBeTruthy();
+            });
+
+            act(() => {
+                store.invalidate("versioned");
+            });
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            await waitFor(() => {
+                expect(screen.getByText("Version 2")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test("命中缓存时 retry 和 reset 仍会重新加载", async () => {
+            let calls = 0;
+            const fetcher = mock(() => {
+                calls++;
+                return delay(5, `Version ${calls}`);
+            });
+            const store = new AwaitCacheStore();
+            store.set("cached", "Cached");
+
+            render(
+                <AwaitCache store={store}>
+                    <Await
+                        fetcher={fetcher}
+                        cacheKey="cached"
+                        render={(state, { retry, reset }) => (
+                            <div>
+                                <span>{state.status === "fulfilled" ? state.value : state.status}</span>
+                                <button type="button" onClick={retry}>
+                                    Retry
+                                </button>
+                                <button type="button" onClick={reset}>
+                                    Reset
+                                </button>
+                            </div>
+                        )}
+                    />
+                </AwaitCache>
+            );
+            expect(screen.getByText("Cached")).toBeTruthy();
+
+            await userEvent.click(screen.getByText("Retry"));
+            await waitFor(() => {
+                expect(screen.getByText("Version 1")).toBeTruthy();
+            });
+            expect(store.get("cached")).toEqual({ value: "Version 1" });
+
+            await userEvent.click(screen.getByText("Reset"));
+            await waitFor(() => {
+                expect(screen.getByText("Version 2")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("render", () => {
+        test("接收完整的状态", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+
+            render(<Await promise={promise} render={(state) => <span>Status: {state.status}</span>} />);
+
+            expect(screen.getByText("Status: pending")).toBeTruthy();
+
+            await act(async () => {
+                resolve("Done");
+            });
+
+            expect(screen.getByText("Status: fulfilled")).toBeTruthy();
+        });
+
+        test("替代 loading、error 与 children", async () => {
+            render(
+                <Await
+                    promise={delayReject(5, new Error("Boom"))}
+                    loading={<span>Loading...</span>}
+                    error={<span>Slot error</span>}
+                    render={(state) =>
+                        state.status === "rejected" ? <span>Render: {(state.error as Error).message}</span> : null
+                    }
+                />
+            );
+
+            expect(screen.queryByText("Loading...")).toBeNull();
+
+            await waitFor(() => {
+                expect(screen.getByText("Render: Boom")).toBeTruthy();
+            });
+            expect(screen.queryByText("Slot error")).toBeNull();
+        });
+
+        test("retry 重新执行 fetcher 并保留上一次的值", async () => {
+            // 使用可控的 Promise，断言 pending 时下一次请求不会已经完成
+            const requests: ReturnType<typeof createControllablePromise<string>>[] = [];
+            const fetcher = mock(() => {
+                const request = createControllablePromise<string>();
+                requests.push(request);
+                return request.promise;
+            });
+
+            render(
+                <Await
+                    fetcher={fetcher}
+                    render={(state, { retry, previous }) => (
+                        <div>
+                            <span>Status: {state.status}</span>
+                            {previous && <span>Previous: {previous.value}</span>}
+                            <button type="button" onClick={retry}>
+                                Retry
+                            </button>
+                        </div>
+                    )}
+                />
+            );
+
+            requests[0].resolve("Value 1");
+            await waitFor(() => {
+                expect(screen.getByText("Previous: Value 1")).toBeTruthy();
+            });
+
+            await userEvent.click(screen.getByText("Retry"));
+
+            expect(screen.getByText("Status: pending")).toBeTruthy();
+            expect(screen.getByText("Previous: Value 1")).toBeTruthy();
+
+            requests[1].resolve("Value 2");
+            await waitFor(() => {
+                expect(screen.getByText("Previous: Value 2")).toBeTruthy();
+            });
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test("reset 丢弃上一次的值并重新加载", async () => {
+            // 使用可控的 Promise，断言 pending 时下一次请求不会已经完成
+            const requests: ReturnType<typeof createControllablePromise<string>>[] = [];
+            const fetcher = mock(() => {
+                const request = createControllablePromise<string>();
+                requests.push(request);
+                return request.promise;
+            });
+
+            render(
+                <Await
+                    fetcher={fetcher}
+                    render={(state, { reset, previous }) => (
+                        <div>
+                            <span>Status: {state.status}</span>
+                            <span>Previous: {previous ? previous.value : "none"}</span>
+                            <button type="button" onClick={reset}>
+                                Reset
+                            </button>
+                        </div>
+                    )}
+                />
+            );
+
+            requests[0].resolve("Value 1");
+            await waitFor(() => {
+                expect(screen.getByText("Previous: Value 1")).toBeTruthy();
+            });
+
+            await userEvent.click(screen.getByText("Reset"));
+
+            expect(screen.getByText("Status: pending")).toBeTruthy();
+            expect(screen.getByText("Previous: none")).toBeTruthy();
+
+            requests[1].resolve("Value 2");
+            await waitFor(() => {
+                expect(screen.getByText("Previous: Value 2")).toBeTruthy();
+            });
+        });
+
+        test("render 中可以读取进度", async () => {
+            render(
+                <Await
+                    fetcher={(_signal, onProgress) => {
+                        onProgress(0.5);
+                        return new Promise<string>(() => {});
+                    }}
+                    render={(_state, { progress }) => <span>Progress: {progress}</span>}
+                />
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Progress: 0.5")).toBeTruthy();
+            });
+        });
+    });
+
     describe("复杂场景", () => {
         test("嵌套 Await", async () => {
             const userPromise = delay(10, { id: 1, name: "Alice" });
@@ -291,3 +1572,102 @@ describe("Await 组件", () => {
         });
     });
 });
+
+describe("useAwait", () => {
+    test("同步值直接返回 fulfilled", () => {
+        const { result } = renderHook(() => useAwait("Sync"));
+
+        expect(result.current.status).toBe("fulfilled");
+        expect(result.current.status === "fulfilled" && result.current.value).toBe("Sync");
+    });
+
+    test("返回 Promise 的状态", async () => {
+        const { promise, resolve } = createControllablePromise<string>();
+        const { result } = renderHook(() => useAwait(promise));
+
+        expect(result.current.status).toBe("pending");
+
+        await act(async () => {
+            resolve("Done");
+        });
+
+        expect(result.current).toMatchObject({ status: "fulfilled", value: "Done" });
+        expect(result.current.previous).toEqual({ value: "Done" });
+    });
+
+    test("rejected 时返回错误并可以重试", async () => {
+        let calls = 0;
+        const factory = () => {
+            calls++;
+            return calls === 1 ? Promise.reject(new Error("Failed")) : Promise.resolve("Recovered");
+        };
+        const { result } = renderHook(() => useAwait(factory));
+
+        await waitFor(() => {
+            expect(result.current.status).toBe("rejected");
+        });
+        expect(result.current.status === "rejected" && (result.current.error as Error).message).toBe("Failed");
+
+        act(() => {
+            result.current.retry();
+        });
+
+        await waitFor(() => {
+            expect(result.current).toMatchObject({ status: "fulfilled", value: "Recovered" });
+        });
+    });
+
+    test("忽略旧 Promise 的结果", async () => {
+        const first = createControllablePromise<string>();
+        const second = createControllablePromise<string>();
+        const { result, rerender } = renderHook(({ promise }) => useAwait(promise), {
+            initialProps: { promise: first.promise },
+        });
+
+        rerender({ promise: second.promise });
+
+        await act(async () => {
+            first.resolve("First");
+        });
+        expect(result.current.status).toBe("pending");
+
+        await act(async () => {
+            second.resolve("Second");
+        });
+        expect(result.current).toMatchObject({ status: "fulfilled", value: "Second" });
+    });
+
+    test("卸载时中止 fetcher", () => {
+        let signal: AbortSignal | undefined;
+        const { unmount } = renderHook(() =>
+            useAwait<string>(undefined, {
+                fetcher: (s) => {
+                    signal = s;
+                    return new Promise(() => {});
+                },
+            })
+        );
+
+        expect(signal?.aborted).toBe(false);
+        unmount();
+        expect(signal?.aborted).toBe(true);
+    });
+
+    test("delay 结束前 showLoading 为 false", () => {
+        jest.useFakeTimers();
+        try {
+            const promise = new Promise<string>(() => {});
+            const { result } = renderHook(() => useAwait(promise, { delay: 100 }));
+
+            expect(result.current.showLoading).toBe(false);
+
+            act(() => {
+                jest.advanceTimersByTime(100);
+            });
+
+            expect(result.current.showLoading).toBe(true);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+});
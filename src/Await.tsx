@@ -1,20 +1,412 @@
-import { type ReactNode, useEffect, useState } from "react";
+import { type DependencyList, type ReactNode, useCallback, useEffect, useRef, useState } from "react";
+import { useAwaitCache } from "./AwaitCache";
+import { AwaitServerCache } from "./AwaitHydration";
 
 /** Promise state | Promise 的状态 */
-type PromiseState<T> =
+export type PromiseState<T> =
     | { status: "pending" }
     | { status: "fulfilled"; value: T }
     | { status: "rejected"; error: unknown };
 
-export interface AwaitProps<T> {
-    /** Promise to wait for | 要等待的 Promise */
-    promise: Promise<T> | T;
-    /** Content to show when Promise is pending | Promise pending 时显示的内容 */
-    loading?: ReactNode;
-    /** Content to show when Promise is rejected | Promise rejected 时显示的内容 */
-    error?: ReactNode | ((error: unknown) => ReactNode);
-    /** Content to render when Promise is fulfilled | Promise fulfilled 时渲染的内容 */
-    children: ReactNode | ((data: T) => ReactNode);
+/** Helpers passed to the render prop | 传给 render 的辅助对象 */
+export interface AwaitRenderHelpers<T> {
+    /** Load again bypassing the cache, keeping the previous value | 跳过缓存重新加载，保留上一次的值 */
+    retry: () => void;
+    /** Discard the previous value and load again bypassing the cache | 丢弃上一次的值并跳过缓存重新加载 */
+    reset: () => void;
+    /** Last fulfilled value, available while a new Promise is pending | 最近一次 fulfilled 的值，新 Promise pending 时仍可使用 */
+    previous: { value: T } | null;
+    /** Latest reported progress | 最近一次上报的进度 */
+    progress: number | undefined;
+}
+
+/** Settled Promise state | 已结束的 Promise 状态 */
+export type SettledPromiseState<T> = Exclude<PromiseState<T>, { status: "pending" }>;
+
+/** Error passed to error when a Promise exceeds the timeout | Promise 超时时传给 error 的错误 */
+export class TimeoutError extends Error {
+    /** Timeout in milliseconds | 超时毫秒数 */
+    readonly timeout: number;
+
+    constructor(timeout: number) {
+        super(`Promise timed out after ${timeout}ms`);
+        this.name = "TimeoutError";
+        this.timeout = timeout;
+    }
+}
+
+/** Retry backoff strategy | 重试退避策略 */
+export type AwaitBackoff = "fixed" | "exponential";
+
+/** Options of useAwait | useAwait 的选项 */
+export interface UseAwaitOptions<T> {
+    /** Fetch function receiving an AbortSignal, takes precedence over promise | 接收 AbortSignal 的请求函数，优先于 promise */
+    fetcher?: (signal: AbortSignal, onProgress: (progress: number) => void) => Promise<T>;
+    /** Dependencies of fetcher or a promise factory, re-fetches (aborting the previous request) when changed | fetcher 或 promise 工厂函数的依赖项，变化时重新请求（并中止上一次请求） */
+    deps?: DependencyList;
+    /** Called once when the Promise resolves | Promise resolve 时调用一次 */
+    onResolve?: (value: T) => void;
+    /** Called once when the Promise is finally rejected (after retries) | Promise 最终 rejected（重试之后）时调用一次 */
+    onReject?: (error: unknown) => void;
+    /** Called once when the Promise settles either way | Promise 结束（无论成功或失败）时调用一次 */
+    onSettled?: (state: SettledPromiseState<T>) => void;
+    /** Key to share fulfilled values and in-flight requests through the Await cache, cached values render synchronously on mount, retry and reset invalidate the key | 通过 Await 缓存共享 fulfilled 值和进行中请求的 key，挂载时直接同步渲染已缓存的值，retry 和 reset 会使该 key 失效 */
+    cacheKey?: string;
+    /** Delay in milliseconds before showing loading, renders nothing until then (default: 0) | 显示 loading 前的延迟毫秒数，在此之前不渲染内容（默认：0） */
+    delay?: number;
+    /** Minimum time in milliseconds to keep loading once shown (default: 0) | loading 显示后至少保持的毫秒数（默认：0） */
+    minDuration?: number;
+    /** Timeout in milliseconds for each attempt, rejects with TimeoutError and aborts the fetcher | 每次尝试的超时毫秒数，超时后以 TimeoutError 拒绝并中止 fetcher */
+    timeout?: number;
+    /** Number of automatic retries on rejection, only works with a factory or fetcher (default: 0) | 失败时自动重试的次数，仅对工厂函数或 fetcher 生效（默认：0） */
+    retries?: number;
+    /** Delay before each retry in milliseconds (default: 0) | 每次重试前的延迟毫秒数（默认：0） */
+    retryDelay?: number;
+    /** Backoff strategy, "exponential" doubles the delay on each retry (default: "fixed") | 退避策略，"exponential" 每次重试延迟翻倍（默认："fixed"） */
+    backoff?: AwaitBackoff;
+}
+
+/** Return value of useAwait | useAwait 的返回值 */
+export type UseAwaitResult<T> = PromiseState<T> &
+    AwaitRenderHelpers<T> & {
+        /** Whether loading should be shown, false until delay has passed | 是否应显示 loading，delay 结束前为 false */
+        showLoading: boolean;
+    };
+
+export interface AwaitProps<T> extends UseAwaitOptions<T> {
+    /** Promise to wait for, or a factory creating it (required for retries), any function is called as a factory and only re-runs when deps change or on retry | 要等待的 Promise，或创建 Promise 的工厂函数（重试时需要），任何函数都会作为工厂函数调用，只在 deps 变化或重试时重新执行 */
+    promise?: Promise<T> | T | ((onProgress: (progress: number) => void) => Promise<T> | T);
+    /** Content to show when Promise is pending, receives the latest reported progress | Promise pending 时显示的内容，接收最近一次上报的进度 */
+    loading?: ReactNode | ((progress: number | undefined) => ReactNode);
+    /** Content to show when Promise is rejected, receives error and retry function | Promise rejected 时显示的内容，接收错误和重试函数 */
+    error?: ReactNode | ((error: unknown, retry: () => void) => ReactNode);
+    /** Content to render when Promise is fulfilled, isRefreshing is true while showing a stale value | Promise fulfilled 时渲染的内容，显示旧值时 isRefreshing 为 true */
+    children?: ReactNode | ((data: T, isRefreshing: boolean) => ReactNode);
+    /** Render every state yourself, replaces loading, error and children | 自行渲染所有状态，替代 loading、error 和 children */
+    render?: (state: PromiseState<T>, helpers: AwaitRenderHelpers<T>) => ReactNode;
+    /** Keep rendering the previous value instead of loading while a new Promise is pending (default: false) | 新 Promise pending 时继续渲染上一次的值而不是 loading（默认：false） */
+    keepPrevious?: boolean;
+}
+
+/** Check whether the promise prop is a factory function | 判断 promise 是否为工厂函数 */
+function isFactory<T>(
+    promise: AwaitProps<T>["promise"]
+): promise is (onProgress: (progress: number) => void) => Promise<T> | T {
+    return typeof promise === "function";
+}
+
+/** Call a lifecycle callback, errors are rethrown asynchronously instead of breaking the settle | 调用生命周期回调，错误会异步重新抛出，不会打断状态更新 */
+function invokeCallback(callback: () => void): void {
+    try {
+        callback();
+    } catch (error) {
+        queueMicrotask(() => {
+            throw error;
+        });
+    }
+}
+
+/** Check whether two dependency lists differ, compared item by item | 逐项比较两个依赖列表是否不同 */
+function haveDepsChanged(prev: DependencyList = [], next: DependencyList = []): boolean {
+    return prev.length !== next.length || prev.some((dep, index) => !Object.is(dep, next[index]));
+}
+
+/**
+ * Keep the previous deps array while its items are unchanged, so it can be used as a single effect dependency
+ *
+ * 各项未变化时保持原 deps 数组，使其可以作为单个 effect 依赖项（长度可变）
+ */
+function useStableDeps(deps: DependencyList | undefined): DependencyList | undefined {
+    const depsRef = useRef(deps);
+    if (haveDepsChanged(depsRef.current, deps)) {
+        depsRef.current = deps;
+    }
+    return depsRef.current;
+}
+
+/** Get delay before the given retry attempt (starting from 1) | 获取第 N 次重试（从 1 开始）前的延迟 */
+function getRetryDelay(retryDelay: number, backoff: AwaitBackoff, attempt: number): number {
+    return backoff === "exponential" ? retryDelay * 2 ** (attempt - 1) : retryDelay;
+}
+
+/**
+ * Hook version of Await, returns the Promise state together with retry/reset helpers
+ *
+ * Await 的 Hook 版本，返回 Promise 的状态以及 retry/reset 等辅助方法
+ *
+ * @example
+ * const user = useAwait(fetchUser(id));
+ * if (user.status === "pending") return <Spinner />;
+ * if (user.status === "rejected") return <button onClick={user.retry}>Retry</button>;
+ * return <UserProfile user={user.value} />;
+ *
+ * @example
+ * // Abortable fetcher | 可中止的 fetcher
+ * const user = useAwait(undefined, {
+ *   fetcher: (signal) => fetch(`/api/users/${id}`, { signal }).then((r) => r.json()),
+ *   deps: [id],
+ * });
+ */
+export function useAwait<T>(
+    promise: AwaitProps<T>["promise"],
+    {
+        fetcher,
+        deps,
+        retries = 0,
+        retryDelay = 0,
+        backoff = "fixed",
+        timeout,
+        onResolve,
+        onReject,
+        onSettled,
+        cacheKey,
+        delay = 0,
+        minDuration = 0,
+    }: UseAwaitOptions<T> = {}
+): UseAwaitResult<T> {
+    const cache = useAwaitCache();
+    const hasFetcher = fetcher !== undefined;
+    // 既不是 Promise 也不是工厂函数时视为同步值
+    const hasFactory = isFactory(promise);
+    const isSync = !hasFetcher && !(promise instanceof Promise) && !hasFactory;
+    // 工厂函数与 fetcher 一样只在 deps 变化或重试时重新执行，内联工厂函数不会导致重复请求
+    const promiseDep = hasFactory ? undefined : promise;
+
+    const [state, setState] = useState<PromiseState<T>>(() => {
+        // 如果传入的是同步值，直接设置为 fulfilled
+        if (isSync) {
+            return { status: "fulfilled", value: promise as T };
+        }
+        // 命中缓存时直接使用缓存值
+        const cached = cacheKey === undefined ? undefined : cache.get<T>(cacheKey);
+        if (cached) {
+            return { status: "fulfilled", value: cached.value };
+        }
+        // 服务端渲染时 effect 不会执行，将 Promise 交给服务端缓存收集
+        if (cacheKey !== undefined && cache instanceof AwaitServerCache) {
+            const ignoreProgress = () => {};
+            cache.track(cacheKey, () => {
+                if (fetcher) {
+                    return fetcher(new AbortController().signal, ignoreProgress);
+                }
+                return isFactory(promise) ? promise(ignoreProgress) : promise;
+            });
+        }
+        return { status: "pending" };
+    });
+    // 最近一次 fulfilled 的值，用于 keepPrevious
+    const [previous, setPrevious] = useState<{ value: T } | null>(() =>
+        state.status === "fulfilled" ? { value: state.value } : null
+    );
+    // 最近一次上报的进度
+    const [progress, setProgress] = useState<number | undefined>(undefined);
+    // pending 时是否已经显示 loading，用于 delay
+    const [showLoading, setShowLoading] = useState(delay <= 0);
+    // 每次手动重试递增，用于重新触发 effect
+    const [retryCount, setRetryCount] = useState(0);
+    // effect 最近一次处理的重试次数，用于区分手动重试
+    const handledRetryRef = useRef(retryCount);
+    // 逐项比较 deps，长度变化时同样会重新请求
+    const stableDeps = useStableDeps(deps);
+
+    // 始终使用最新的 fetcher，内联函数不会导致重复请求
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+    const promiseRef = useRef(promise);
+    promiseRef.current = promise;
+    // 回调同样使用最新的引用，回调变化不会重新等待
+    const callbacksRef = useRef({ onResolve, onReject, onSettled });
+    callbacksRef.current = { onResolve, onReject, onSettled };
+
+    const reload = useCallback(() => {
+        setRetryCount((count) => count + 1);
+    }, []);
+
+    // 使用 cacheKey 时让缓存失效，相同 key 的 Await 一起重新加载并共享同一个请求
+    const retry = useCallback(() => {
+        if (cacheKey === undefined) {
+            reload();
+        } else {
+            cache.invalidate(cacheKey);
+        }
+    }, [cache, cacheKey, reload]);
+
+    const reset = useCallback(() => {
+        setPrevious(null);
+        retry();
+    }, [retry]);
+
+    // 缓存失效时重新加载
+    useEffect(() => {
+        if (cacheKey === undefined) {
+            return;
+        }
+        return cache.subscribe(cacheKey, reload);
+    }, [cache, cacheKey, reload]);
+
+    // biome-ignore lint/correctness/useExhaustiveDependencies: retryCount 用于手动重试，deps 由调用方控制 fetcher 和工厂函数的重新执行
+    useEffect(() => {
+        const isRetry = handledRetryRef.current !== retryCount;
+        handledRetryRef.current = retryCount;
+
+        // 同步值不需要处理
+        if (isSync) {
+            setState({ status: "fulfilled", value: promiseDep as T });
+            setPrevious({ value: promiseDep as T });
+            return;
+        }
+
+        // 命中缓存时不需要重新加载，手动重试时跳过缓存
+        const cached = isRetry || cacheKey === undefined ? undefined : cache.get<T>(cacheKey);
+        if (cached) {
+            setState({ status: "fulfilled", value: cached.value });
+            setPrevious(cached);
+            return;
+        }
+
+        // 重置状态
+        setState({ status: "pending" });
+        setShowLoading(delay <= 0);
+        setProgress(undefined);
+
+        let cancelled = false;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        let delayTimer: ReturnType<typeof setTimeout> | undefined;
+        let settleTimer: ReturnType<typeof setTimeout> | undefined;
+        let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+        // 当前尝试的 AbortController
+        let controller: AbortController | undefined;
+        // loading 开始显示的时间，未显示时为 undefined
+        let shownAt: number | undefined;
+
+        if (delay > 0) {
+            delayTimer = setTimeout(() => {
+                shownAt = Date.now();
+                setShowLoading(true);
+            }, delay);
+        } else {
+            shownAt = Date.now();
+        }
+
+        const settle = (next: SettledPromiseState<T>) => {
+            clearTimeout(delayTimer);
+
+            const apply = () => {
+                setState(next);
+                if (next.status === "fulfilled") {
+                    setPrevious({ value: next.value });
+                }
+            };
+
+            // loading 已显示时，至少保持 minDuration
+            const remaining = shownAt === undefined ? 0 : minDuration - (Date.now() - shownAt);
+            if (remaining > 0) {
+                settleTimer = setTimeout(apply, remaining);
+            } else {
+                apply();
+            }
+
+            // 每个 Promise 只触发一次生命周期回调，状态已更新，回调抛出的错误不会让组件停留在 loading
+            const callbacks = callbacksRef.current;
+            if (next.status === "fulfilled") {
+                invokeCallback(() => callbacks.onResolve?.(next.value));
+            } else {
+                invokeCallback(() => callbacks.onReject?.(next.error));
+            }
+            invokeCallback(() => callbacks.onSettled?.(next));
+        };
+
+        // 忽略已取消的 Promise 上报的进度
+        const onProgress = (value: number) => {
+            if (!cancelled) {
+                setProgress(value);
+            }
+        };
+
+        const start = (signal: AbortSignal): Promise<T> => {
+            const currentFetcher = fetcherRef.current;
+            if (currentFetcher) {
+                return currentFetcher(signal, onProgress);
+            }
+            const factory = promiseRef.current;
+            // 工厂函数返回的非 Promise 值同样视为 fulfilled
+            return isFactory(factory) ? Promise.resolve(factory(onProgress)) : (promiseDep as Promise<T>);
+        };
+
+        // 相同 cacheKey 的 Await 共享进行中的请求，fulfilled 的值由缓存保存
+        const load = (signal: AbortSignal): Promise<T> =>
+            cacheKey === undefined ? start(signal) : cache.load(cacheKey, signal, start);
+
+        const run = (attempt: number) => {
+            const attemptController = new AbortController();
+            controller = attemptController;
+
+            new Promise<T>((resolve, reject) => {
+                // 超时后以 TimeoutError 拒绝，不再等待原 Promise，并中止请求
+                if (timeout !== undefined) {
+                    timeoutTimer = setTimeout(() => {
+                        const timeoutError = new TimeoutError(timeout);
+                        reject(timeoutError);
+                        attemptController.abort(timeoutError);
+                    }, timeout);
+                }
+                // 工厂函数同步抛出的错误也视为 rejected
+                load(attemptController.signal).then(resolve, reject);
+            }).then(
+                (value) => {
+                    clearTimeout(timeoutTimer);
+                    if (!cancelled) {
+                        settle({ status: "fulfilled", value });
+                    }
+                },
+                // 使用第二个参数，回调中抛出的错误不会被当作 rejected
+                (err) => {
+                    clearTimeout(timeoutTimer);
+                    if (cancelled) {
+                        return;
+                    }
+                    // 只有工厂函数或 fetcher 才能重新创建 Promise
+                    if ((hasFetcher || hasFactory) && attempt < retries) {
+                        retryTimer = setTimeout(
+                            () => run(attempt + 1),
+                            getRetryDelay(retryDelay, backoff, attempt + 1)
+                        );
+                        return;
+                    }
+                    settle({ status: "rejected", error: err });
+                }
+            );
+        };
+
+        run(0);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(retryTimer);
+            clearTimeout(delayTimer);
+            clearTimeout(settleTimer);
+            clearTimeout(timeoutTimer);
+            // 中止仍在进行的请求
+            controller?.abort();
+        };
+    }, [
+        isSync,
+        hasFetcher,
+        hasFactory,
+        promiseDep,
+        retries,
+        retryDelay,
+        backoff,
+        timeout,
+        cache,
+        cacheKey,
+        delay,
+        minDuration,
+        retryCount,
+        stableDeps,
+    ]);
+
+    return { ...state, retry, reset, previous, progress, showLoading };
 }
 
 /**
@@ -39,6 +431,81 @@ export interface AwaitProps<T> {
  * </Await>
  *
  * @example
+ * // Retry with exponential backoff (pass a factory) | 指数退避重试（传入工厂函数）
+ * <Await
+ *   promise={loadUser}
+ *   retries={3}
+ *   retryDelay={500}
+ *   backoff="exponential"
+ *   error={(err, retry) => <button onClick={retry}>Retry</button>}
+ * >
+ *   {(user) => <UserProfile user={user} />}
+ * </Await>
+ *
+ * @example
+ * // Abortable fetcher, re-fetches when deps change | 可中止的 fetcher，deps 变化时重新请求
+ * <Await fetcher={(signal) => fetch(`/api/users/${id}`, { signal }).then((r) => r.json())} deps={[id]}>
+ *   {(user) => <UserProfile user={user} />}
+ * </Await>
+ *
+ * @example
+ * // Side effects on completion | 完成时执行副作用
+ * <Await promise={saveDraft()} onResolve={() => toast("Saved")} onReject={(err) => report(err)}>
+ *   <SavedBadge />
+ * </Await>
+ *
+ * @example
+ * // Report progress from a factory | 在工厂函数中上报进度
+ * <Await
+ *   promise={(onProgress) => upload(file, { onUploadProgress: (e) => onProgress(e.loaded / e.total) })}
+ *   deps={[file]}
+ *   loading={(progress) => <ProgressBar value={progress ?? 0} />}
+ * >
+ *   <UploadComplete />
+ * </Await>
+ *
+ * @example
+ * // Reuse the value across instances | 在多个实例间复用值
+ * <Await fetcher={(signal) => fetchUser(id, signal)} deps={[id]} cacheKey={`user:${id}`}>
+ *   {(user) => <UserProfile user={user} />}
+ * </Await>
+ *
+ * @example
+ * // Give up after a deadline | 超时后放弃等待
+ * <Await
+ *   promise={fetchReport()}
+ *   timeout={5000}
+ *   error={(err) => (err instanceof TimeoutError ? <SlowNotice /> : <ErrorMessage />)}
+ * >
+ *   {(report) => <Report data={report} />}
+ * </Await>
+ *
+ * @example
+ * // Avoid spinner flicker | 避免 loading 闪烁
+ * <Await promise={fetchData()} loading={<Spinner />} delay={200} minDuration={500}>
+ *   {(data) => <DataView data={data} />}
+ * </Await>
+ *
+ * @example
+ * // Keep previous page visible while the next one loads | 加载下一页时保留上一页内容
+ * <Await promise={fetchPage(page)} loading={<Spinner />} keepPrevious>
+ *   {(items, isRefreshing) => <List items={items} dimmed={isRefreshing} />}
+ * </Await>
+ *
+ * @example
+ * // Full control over every state | 完全控制所有状态
+ * <Await
+ *   promise={fetchData()}
+ *   render={(state, { previous, retry }) => (
+ *     <Panel>
+ *       {state.status === "pending" && <SkeletonOverlay />}
+ *       {state.status === "rejected" && <button onClick={retry}>Retry</button>}
+ *       {state.status === "fulfilled" ? <DataView data={state.value} /> : previous && <DataView data={previous.value} />}
+ *     </Panel>
+ *   )}
+ * />
+ *
+ * @example
  * // Static children (doesn't need Promise value) | 静态 children（不需要 Promise 的值）
  * <Await promise={initApp()} loading={<SplashScreen />}>
  *   <App />
@@ -50,60 +517,48 @@ export interface AwaitProps<T> {
  *   {(data) => <DataView data={data} />}
  * </Await>
  */
-export function Await<T>({ promise, loading = null, error = null, children }: AwaitProps<T>): ReactNode {
-    const [state, setState] = useState<PromiseState<T>>(() => {
-        // 如果传入的不是 Promise，直接设置为 fulfilled
-        if (!(promise instanceof Promise)) {
-            return { status: "fulfilled", value: promise };
-        }
-        return { status: "pending" };
-    });
+export function Await<T>({
+    promise,
+    loading = null,
+    error = null,
+    children = null,
+    render,
+    keepPrevious = false,
+    ...options
+}: AwaitProps<T>): ReactNode {
+    const result = useAwait(promise, options);
+    const { retry, previous, progress, showLoading } = result;
+    const state: PromiseState<T> = result;
 
-    useEffect(() => {
-        // 如果不是 Promise，不需要处理
-        if (!(promise instanceof Promise)) {
-            setState({ status: "fulfilled", value: promise });
-            return;
-        }
-
-        // 重置状态
-        setState({ status: "pending" });
-
-        let cancelled = false;
-
-        promise
-            .then((value) => {
-                if (!cancelled) {
-                    setState({ status: "fulfilled", value });
-                }
-            })
-            .catch((err) => {
-                if (!cancelled) {
-                    setState({ status: "rejected", error: err });
-                }
-            });
-
-        return () => {
-            cancelled = true;
-        };
-    }, [promise]);
+    // 自定义渲染
+    if (render) {
+        return render(state, result);
+    }
 
     // pending 状态
     if (state.status === "pending") {
-        return loading;
+        // keepPrevious 时继续渲染旧值
+        if (keepPrevious && previous) {
+            return typeof children === "function" ? children(previous.value, true) : children;
+        }
+        // delay 未结束前不渲染 loading
+        if (!showLoading) {
+            return null;
+        }
+        return typeof loading === "function" ? loading(progress) : loading;
     }
 
     // rejected 状态
     if (state.status === "rejected") {
         if (typeof error === "function") {
-            return error(state.error);
+            return error(state.error, retry);
         }
         return error;
     }
 
     // fulfilled 状态
     if (typeof children === "function") {
-        return children(state.value);
+        return children(state.value, false);
     }
 
     return children;
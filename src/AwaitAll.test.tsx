@@ -0,0 +1,261 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen, waitFor } from "@testing-library/react";
+import { AwaitAll } from "./AwaitAll";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+});
+
+// 创建一个可控的 Promise
+function createControllablePromise<T>() {
+    let resolve: (value: T) => void = () => {};
+    let reject: (error: unknown) => void = () => {};
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+describe("AwaitAll 组件", () => {
+    describe("数组", () => {
+        test("全部 resolve 前显示 loading", async () => {
+            const first = createControllablePromise<string>();
+            const second = createControllablePromise<number>();
+
+            render(
+                <AwaitAll promises={[first.promise, second.promise]} loading={<span>Loading...</span>}>
+                    {([name, count]) => (
+                        <span>
+                            {name}: {count}
+                        </span>
+                    )}
+                </AwaitAll>
+            );
+
+            first.resolve("Items");
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            second.resolve(3);
+            await waitFor(() => {
+                expect(screen.getByText("Items: 3")).toBeTruthy();
+            });
+        });
+
+        test("结果保持输入的顺序", async () => {
+            const slow = new Promise<string>((resolve) => setTimeout(() => resolve("slow"), 20));
+            const fast = Promise.resolve("fast");
+
+            render(<AwaitAll promises={[slow, fast]}>{(values) => <span>{values.join(",")}</span>}</AwaitAll>);
+
+            await waitFor(() => {
+                expect(screen.getByText("slow,fast")).toBeTruthy();
+            });
+        });
+
+        test("任一 Promise rejected 时显示 error", async () => {
+            const ok = Promise.resolve("ok");
+            const failed = Promise.reject(new Error("Failed"));
+
+            render(
+                <AwaitAll promises={[ok, failed]} error={(err) => <span>Error: {(err as Error).message}</span>}>
+                    {() => <span>Success</span>}
+                </AwaitAll>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Error: Failed")).toBeTruthy();
+            });
+        });
+
+        test("全部为同步值时直接渲染", () => {
+            render(
+                <AwaitAll promises={["a", 1]} loading={<span>Loading...</span>}>
+                    {([letter, digit]) => (
+                        <span>
+                            {letter}
+                            {digit}
+                        </span>
+                    )}
+                </AwaitAll>
+            );
+
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("a1")).toBeTruthy();
+        });
+
+        test("混合 Promise 与同步值", async () => {
+            render(
+                <AwaitAll promises={[Promise.resolve("async"), "sync"]}>
+                    {([a, b]) => (
+                        <span>
+                            {a}+{b}
+                        </span>
+                    )}
+                </AwaitAll>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("async+sync")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("对象", () => {
+        test("按 key 传入结果", async () => {
+            const user = Promise.resolve({ name: "Alice" });
+            const posts = Promise.resolve(["Post 1", "Post 2"]);
+
+            render(
+                <AwaitAll promises={{ user, posts }} loading={<span>Loading...</span>}>
+                    {({ user, posts }) => (
+                        <span>
+                            {user.name} has {posts.length} posts
+                        </span>
+                    )}
+                </AwaitAll>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Alice has 2 posts")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("settled 模式", () => {
+        test("传入每一项的状态，不进入 rejected", async () => {
+            const ok = Promise.resolve("ok");
+            const failed = Promise.reject(new Error("Failed"));
+
+            render(
+                <AwaitAll promises={{ ok, failed }} settled error={<span>Error</span>}>
+                    {({ ok, failed }) => (
+                        <span>
+                            {ok.status === "fulfilled" ? ok.value : "-"} /{" "}
+                            {failed.status === "rejected" ? (failed.reason as Error).message : "-"}
+                        </span>
+                    )}
+                </AwaitAll>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("ok / Failed")).toBeTruthy();
+            });
+            expect(screen.queryByText("Error")).toBeNull();
+        });
+
+        test("同步值视为 fulfilled", () => {
+            render(
+                <AwaitAll promises={[42]} settled>
+                    {([answer]) => <span>{answer.status === "fulfilled" ? answer.value : "-"}</span>}
+                </AwaitAll>
+            );
+
+            expect(screen.getByText("42")).toBeTruthy();
+        });
+    });
+
+    describe("Promise 变化", () => {
+        test("传入包含相同 Promise 的新数组时不重新等待", async () => {
+            const promise = Promise.resolve("Stable");
+            const renderWith = () => (
+                <AwaitAll promises={[promise]} loading={<span>Loading...</span>}>
+                    {([value]) => <span>{value}</span>}
+                </AwaitAll>
+            );
+
+            const { rerender } = render(renderWith());
+            await waitFor(() => {
+                expect(screen.getByText("Stable")).toBeTruthy();
+            });
+
+            rerender(renderWith());
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("Stable")).toBeTruthy();
+        });
+
+        test("任一 Promise 变化时重新等待", async () => {
+            const first = Promise.resolve("First");
+            const next = createControllablePromise<string>();
+            const renderWith = (promise: Promise<string>) => (
+                <AwaitAll promises={[promise]} loading={<span>Loading...</span>}>
+                    {([value]) => <span>{value}</span>}
+                </AwaitAll>
+            );
+
+            const { rerender } = render(renderWith(first));
+            await waitFor(() => {
+                expect(screen.getByText("First")).toBeTruthy();
+            });
+
+            rerender(renderWith(next.promise));
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            next.resolve("Second");
+            await waitFor(() => {
+                expect(screen.getByText("Second")).toBeTruthy();
+            });
+        });
+
+        test("数组变长时等待新增的 Promise", async () => {
+            const renderWith = (promises: Promise<string>[]) => (
+                <AwaitAll promises={promises} loading={<span>Loading...</span>}>
+                    {(values) => <span>{values.join(",")}</span>}
+                </AwaitAll>
+            );
+            const a = Promise.resolve("a");
+            const b = Promise.resolve("b");
+
+            const { rerender } = render(renderWith([a]));
+            await waitFor(() => {
+                expect(screen.getByText("a")).toBeTruthy();
+            });
+
+            rerender(renderWith([a, b]));
+            await waitFor(() => {
+                expect(screen.getByText("a,b")).toBeTruthy();
+            });
+        });
+
+        test("数组变短时只等待剩余的 Promise", async () => {
+            const renderWith = (promises: Promise<string>[]) => (
+                <AwaitAll promises={promises} loading={<span>Loading...</span>}>
+                    {(values) => <span>{values.join(",")}</span>}
+                </AwaitAll>
+            );
+            const a = Promise.resolve("a");
+            const b = Promise.resolve("b");
+
+            const { rerender } = render(renderWith([a, b]));
+            await waitFor(() => {
+                expect(screen.getByText("a,b")).toBeTruthy();
+            });
+
+            rerender(renderWith([a]));
+            await waitFor(() => {
+                expect(screen.getByText("a")).toBeTruthy();
+            });
+        });
+
+        test("对象新增 key 时重新等待", async () => {
+            const user = Promise.resolve("Alice");
+            const stats = Promise.resolve(3);
+
+            const { rerender } = render(
+                <AwaitAll promises={{ user }}>{(values) => <span>{JSON.stringify(values)}</span>}</AwaitAll>
+            );
+            await waitFor(() => {
+                expect(screen.getByText('{"user":"Alice"}')).toBeTruthy();
+            });
+
+            rerender(
+                <AwaitAll promises={{ user, stats }}>{(values) => <span>{JSON.stringify(values)}</span>}</AwaitAll>
+            );
+            await waitFor(() => {
+                expect(screen.getByText('{"user":"Alice","stats":3}')).toBeTruthy();
+            });
+        });
+    });
+});
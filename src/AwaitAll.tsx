@@ -0,0 +1,129 @@
+import { type ReactNode, useMemo, useRef } from "react";
+import { Await, type AwaitProps } from "./Await";
+
+/** Array or record of promises (or sync values) | Promise（或同步值）组成的数组或对象 */
+export type AwaitAllInput = readonly unknown[] | Record<string, unknown>;
+
+/** Resolved values with the same shape as the input | 与输入结构相同的 resolve 结果 */
+export type AwaitAllValues<P extends AwaitAllInput> = { -readonly [K in keyof P]: Awaited<P[K]> };
+
+/** Settled results with the same shape as the input | 与输入结构相同的 settled 结果 */
+export type AwaitAllSettled<P extends AwaitAllInput> = {
+    -readonly [K in keyof P]: PromiseSettledResult<Awaited<P[K]>>;
+};
+
+export interface AwaitAllProps<P extends AwaitAllInput, S extends boolean = false>
+    extends Pick<AwaitProps<unknown>, "loading" | "delay" | "minDuration" | "timeout" | "keepPrevious"> {
+    /** Array or record of promises to wait for | 要等待的 Promise 数组或对象 */
+    promises: P;
+    /** Wait for every promise to settle like Promise.allSettled (default: false) | 像 Promise.allSettled 一样等待所有 Promise 结束（默认：false） */
+    settled?: S;
+    /** Content to show when any Promise is rejected | 任一 Promise rejected 时显示的内容 */
+    error?: ReactNode | ((error: unknown) => ReactNode);
+    /** Content to render when all promises are done, receives results in the input shape | 所有 Promise 完成后渲染的内容，接收与输入结构相同的结果 */
+    children:
+        | ReactNode
+        | ((values: S extends true ? AwaitAllSettled<P> : AwaitAllValues<P>, isRefreshing: boolean) => ReactNode);
+}
+
+/** Map results back to the input shape | 将结果映射回输入的结构 */
+function toShape(promises: AwaitAllInput, results: unknown[]): unknown {
+    if (Array.isArray(promises)) {
+        return results;
+    }
+    return Object.fromEntries(Object.keys(promises).map((key, i) => [key, results[i]]));
+}
+
+/** Check whether two inputs hold the same entries under the same keys | 判断两个输入是否以相同的 key 包含相同的项 */
+function isSameInput(prev: AwaitAllInput, next: AwaitAllInput): boolean {
+    if (Array.isArray(prev) !== Array.isArray(next)) {
+        return false;
+    }
+    const prevKeys = Object.keys(prev);
+    const nextKeys = Object.keys(next);
+    return (
+        prevKeys.length === nextKeys.length &&
+        prevKeys.every(
+            (key, index) =>
+                key === nextKeys[index] &&
+                Object.is((prev as Record<string, unknown>)[key], (next as Record<string, unknown>)[key])
+        )
+    );
+}
+
+/**
+ * Keep the previous input while its entries are unchanged, compares entry by entry instead of by reference
+ *
+ * 各项未变化时保持原输入，按项比较而不是比较容器的引用
+ */
+export function useStableInput<P extends AwaitAllInput>(promises: P): P {
+    const inputRef = useRef(promises);
+    if (!isSameInput(inputRef.current, promises)) {
+        inputRef.current = promises;
+    }
+    return inputRef.current;
+}
+
+/** Combine entries into a single Promise, or a sync value when nothing is pending | 将所有项合并为一个 Promise，没有 Promise 时返回同步值 */
+function combine(promises: AwaitAllInput, settled: boolean): unknown {
+    const entries: unknown[] = Array.isArray(promises) ? [...promises] : Object.values(promises);
+
+    // 全部是同步值时直接返回，避免闪烁 loading
+    if (!entries.some((entry) => entry instanceof Promise)) {
+        const results = settled ? entries.map((value) => ({ status: "fulfilled", value })) : entries;
+        return toShape(promises, results);
+    }
+
+    const all = settled ? Promise.allSettled(entries) : Promise.all(entries);
+    return all.then((results) => toShape(promises, results));
+}
+
+/**
+ * Wait for multiple promises at once, renders when all of them resolve
+ *
+ * 同时等待多个 Promise，全部 resolve 后渲染
+ *
+ * Results keep the shape of `promises` (tuple or record) with full type inference.
+ * Promises are compared entry by entry, so a new array/object with the same promises does not restart waiting.
+ *
+ * 结果保持 `promises` 的结构（元组或对象）并具有完整的类型推断。
+ * Promise 按项比较，因此传入包含相同 Promise 的新数组/对象不会重新等待。
+ *
+ * @example
+ * // Tuple | 元组
+ * <AwaitAll promises={[fetchUser(), fetchPosts()]} loading={<Spinner />}>
+ *   {([user, posts]) => <Dashboard user={user} posts={posts} />}
+ * </AwaitAll>
+ *
+ * @example
+ * // Record | 对象
+ * <AwaitAll promises={{ user: userPromise, stats: statsPromise }} loading={<Spinner />}>
+ *   {({ user, stats }) => <Dashboard user={user} stats={stats} />}
+ * </AwaitAll>
+ *
+ * @example
+ * // Settled mode, never rejects | settled 模式，不会进入 rejected
+ * <AwaitAll promises={{ user: userPromise, ads: adsPromise }} settled>
+ *   {({ user, ads }) => (
+ *     <>
+ *       {user.status === "fulfilled" && <UserCard user={user.value} />}
+ *       {ads.status === "rejected" && <AdsUnavailable />}
+ *     </>
+ *   )}
+ * </AwaitAll>
+ */
+export function AwaitAll<const P extends AwaitAllInput, S extends boolean = false>({
+    promises,
+    settled,
+    children,
+    ...rest
+}: AwaitAllProps<P, S>): ReactNode {
+    const input = useStableInput(promises);
+    const combined = useMemo(() => combine(input, settled === true), [input, settled]);
+
+    return (
+        <Await {...rest} promise={combined}>
+            {children as AwaitProps<unknown>["children"]}
+        </Await>
+    );
+}
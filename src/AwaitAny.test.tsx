@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen, waitFor } from "@testing-library/react";
+import { AllRejectedError, AwaitAny } from "./AwaitAny";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+});
+
+// 创建延迟 Promise
+function delay<T>(ms: number, value: T): Promise<T> {
+    return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+// 创建延迟失败的 Promise
+function delayReject(ms: number, error: unknown): Promise<never> {
+    return new Promise((_, reject) => setTimeout(() => reject(error), ms));
+}
+
+describe("AwaitAny 组件", () => {
+    describe("fulfilled 状态", () => {
+        test("渲染最先 fulfilled 的值及其来源", async () => {
+            render(
+                <AwaitAny
+                    promises={{ network: delay(30, "fresh"), cache: delay(5, "cached") }}
+                    loading={<span>Loading...</span>}
+                >
+                    {(value, source) => (
+                        <span>
+                            {value} from {source}
+                        </span>
+                    )}
+                </AwaitAny>
+            );
+
+            expect(screen.getByText("Loading...")).toBeTruthy();
+            await waitFor(() => {
+                expect(screen.getByText("cached from cache")).toBeTruthy();
+            });
+        });
+
+        test("忽略先 rejected 的来源", async () => {
+            render(
+                <AwaitAny promises={[delayReject(5, new Error("Primary down")), delay(15, "mirror")]}>
+                    {(value, index) => (
+                        <span>
+                            {value} #{index}
+                        </span>
+                    )}
+                </AwaitAny>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("mirror #1")).toBeTruthy();
+            });
+        });
+
+        test("同步值立即胜出", () => {
+            render(
+                <AwaitAny promises={{ network: delay(5, "fresh"), cache: "cached" }} loading={<span>Loading...</span>}>
+                    {(value, source) => (
+                        <span>
+                            {value} from {source}
+                        </span>
+                    )}
+                </AwaitAny>
+            );
+
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("cached from cache")).toBeTruthy();
+        });
+
+        test("静态 children", async () => {
+            render(
+                <AwaitAny promises={[delay(5, 1)]}>
+                    <span>Ready</span>
+                </AwaitAny>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Ready")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("rejected 状态", () => {
+        test("全部 rejected 时 error 接收 AllRejectedError", async () => {
+            const first = new Error("First");
+            const second = new Error("Second");
+            let received: unknown;
+
+            render(
+                <AwaitAny
+                    promises={[delayReject(10, first), delayReject(5, second)]}
+                    error={(err) => {
+                        received = err;
+                        return <span>All failed</span>;
+                    }}
+                >
+                    {() => <span>Success</span>}
+                </AwaitAny>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("All failed")).toBeTruthy();
+            });
+            expect(received).toBeInstanceOf(AllRejectedError);
+            // 按输入顺序排列
+            expect((received as AllRejectedError).errors).toEqual([first, second]);
+        });
+
+        test("空输入时直接 rejected", async () => {
+            render(
+                <AwaitAny promises={[]} error={<span>No sources</span>}>
+                    {() => <span>Success</span>}
+                </AwaitAny>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("No sources")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("来源变化", () => {
+        test("在已有来源之后新增来源时重新等待", async () => {
+            const failing = delayReject(5, new Error("Down"));
+            const mirror = delay(5, "mirror");
+            const renderWith = (promises: Promise<string>[]) => (
+                <AwaitAny promises={promises} error={<span>All failed</span>}>
+                    {(value, index) => (
+                        <span>
+                            {value}@{index}
+                        </span>
+                    )}
+                </AwaitAny>
+            );
+
+            const { rerender } = render(renderWith([failing]));
+            await waitFor(() => {
+                expect(screen.getByText("All failed")).toBeTruthy();
+            });
+
+            rerender(renderWith([failing, mirror]));
+            await waitFor(() => {
+                expect(screen.getByText("mirror@1")).toBeTruthy();
+            });
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { type ReactNode, useMemo } from "react";
+import { Await, type AwaitProps } from "./Await";
+import { type AwaitAllInput, useStableInput } from "./AwaitAll";
+
+/** Value of any entry | 任意一项的值 */
+export type AwaitAnyValue<P extends AwaitAllInput> = P extends readonly unknown[]
+    ? Awaited<P[number]>
+    : Awaited<P[keyof P]>;
+
+/** Index (array) or key (record) of the winning entry | 胜出项的索引（数组）或 key（对象） */
+export type AwaitAnySource<P extends AwaitAllInput> = P extends readonly unknown[] ? number : keyof P & string;
+
+/** Error passed to error when every Promise is rejected | 所有 Promise 都 rejected 时传给 error 的错误 */
+export class AllRejectedError extends Error {
+    /** Rejection reasons in input order | 按输入顺序排列的拒绝原因 */
+    readonly errors: unknown[];
+
+    constructor(errors: unknown[]) {
+        super("All promises were rejected");
+        this.name = "AllRejectedError";
+        this.errors = errors;
+    }
+}
+
+export interface AwaitAnyProps<P extends AwaitAllInput>
+    extends Pick<AwaitProps<unknown>, "loading" | "delay" | "minDuration" | "timeout" | "keepPrevious"> {
+    /** Array or record of redundant sources, the first fulfilled one wins | 冗余数据源组成的数组或对象，最先 fulfilled 的胜出 */
+    promises: P;
+    /** Content to show when all promises are rejected, receives AllRejectedError | 所有 Promise 都 rejected 时显示的内容，接收 AllRejectedError */
+    error?: ReactNode | ((error: unknown) => ReactNode);
+    /** Content to render with the first fulfilled value and its source | 使用最先 fulfilled 的值及其来源渲染的内容 */
+    children: ReactNode | ((value: AwaitAnyValue<P>, source: AwaitAnySource<P>, isRefreshing: boolean) => ReactNode);
+}
+
+/** Result of the winning entry | 胜出项的结果 */
+interface AnyResult {
+    source: number | string;
+    value: unknown;
+}
+
+/** Resolve with the first fulfilled entry like Promise.any, sync values win immediately | 像 Promise.any 一样以最先 fulfilled 的项 resolve，同步值立即胜出 */
+function any(promises: AwaitAllInput): AnyResult | Promise<AnyResult> {
+    const sources: (number | string)[] = Array.isArray(promises) ? promises.map((_, i) => i) : Object.keys(promises);
+    const entries: unknown[] = Array.isArray(promises) ? [...promises] : Object.values(promises);
+
+    // 同步值视为已 fulfilled，第一个同步值直接胜出
+    const syncIndex = entries.findIndex((entry) => !(entry instanceof Promise));
+    if (syncIndex !== -1) {
+        return { source: sources[syncIndex], value: entries[syncIndex] };
+    }
+
+    return new Promise((resolve, reject) => {
+        const errors: unknown[] = new Array(entries.length);
+        let remaining = entries.length;
+
+        if (remaining === 0) {
+            reject(new AllRejectedError([]));
+            return;
+        }
+
+        entries.forEach((entry, i) => {
+            (entry as Promise<unknown>).then(
+                (value) => resolve({ source: sources[i], value }),
+                (error) => {
+                    errors[i] = error;
+                    remaining--;
+                    if (remaining === 0) {
+                        reject(new AllRejectedError(errors));
+                    }
+                }
+            );
+        });
+    });
+}
+
+/**
+ * Render the first fulfilled Promise among redundant sources (Promise.any semantics)
+ *
+ * 渲染冗余数据源中最先 fulfilled 的 Promise（Promise.any 语义）
+ *
+ * Rejected sources are ignored as long as another one fulfills; when all of them reject,
+ * `error` receives an `AllRejectedError` with every reason.
+ *
+ * 只要还有数据源可能 fulfilled，rejected 的数据源都会被忽略；全部 rejected 时，
+ * `error` 会收到包含所有原因的 `AllRejectedError`。
+ *
+ * @example
+ * // Cache vs network | 缓存与网络
+ * <AwaitAny promises={{ cache: readCache(key), network: fetchData(key) }} loading={<Spinner />}>
+ *   {(data, source) => <DataView data={data} stale={source === "cache"} />}
+ * </AwaitAny>
+ *
+ * @example
+ * // Primary vs fallback mirror | 主源与备用镜像
+ * <AwaitAny
+ *   promises={[fetchFrom(primary), fetchFrom(mirror)]}
+ *   error={(err) => <ErrorMessage count={(err as AllRejectedError).errors.length} />}
+ * >
+ *   {(release, index) => <Release data={release} mirror={index > 0} />}
+ * </AwaitAny>
+ */
+export function AwaitAny<const P extends AwaitAllInput>({ promises, children, ...rest }: AwaitAnyProps<P>): ReactNode {
+    const input = useStableInput(promises);
+    const winner = useMemo(() => any(input), [input]);
+
+    return (
+        <Await {...rest} promise={winner}>
+            {typeof children === "function"
+                ? (result: AnyResult, isRefreshing: boolean) =>
+                      children(result.value as AwaitAnyValue<P>, result.source as AwaitAnySource<P>, isRefreshing)
+                : children}
+        </Await>
+    );
+}
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, jest, mock, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import { AwaitCache, AwaitCacheStore, useAwaitCache } from "./AwaitCache";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+    jest.useRealTimers();
+});
+
+describe("AwaitCacheStore", () => {
+    describe("get / set", () => {
+        test("未设置的 key 返回 undefined", () => {
+            const store = new AwaitCacheStore();
+            expect(store.get("missing")).toBeUndefined();
+        });
+
+        test("返回包装后的值，可以区分 undefined 值", () => {
+            const store = new AwaitCacheStore();
+            store.set("empty", undefined);
+            expect(store.get("empty")).toEqual({ value: undefined });
+        });
+
+        test("ttl 过期后不再返回缓存值", () => {
+            jest.useFakeTimers();
+            const store = new AwaitCacheStore({ ttl: 1000 });
+            store.set("user", "Alice");
+
+            jest.advanceTimersByTime(999);
+            expect(store.get("user")).toEqual({ value: "Alice" });
+
+            jest.advanceTimersByTime(1);
+            expect(store.get("user")).toBeUndefined();
+        });
+    });
+
+    describe("invalidate", () => {
+        test("移除指定 key 并通知监听者", () => {
+            const store = new AwaitCacheStore();
+            const listener = mock(() => {});
+            const other = mock(() => {});
+            store.set("a", 1);
+            store.set("b", 2);
+            store.subscribe("a", listener);
+            store.subscribe("b", other);
+
+            store.invalidate("a");
+
+            expect(store.get("a")).toBeUndefined();
+            expect(store.get("b")).toEqual({ value: 2 });
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(other).not.toHaveBeenCalled();
+        });
+
+        test("不传 key 时清空全部", () => {
+            const store = new AwaitCacheStore();
+            const listener = mock(() => {});
+            store.set("a", 1);
+            store.set("b", 2);
+            store.subscribe("b", listener);
+
+            store.invalidate();
+
+            expect(store.get("a")).toBeUndefined();
+            expect(store.get("b")).toBeUndefined();
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        test("取消监听后不再收到通知", () => {
+            const store = new AwaitCacheStore();
+            const listener = mock(() => {});
+            const unsubscribe = store.subscribe("a", listener);
+
+            unsubscribe();
+            store.invalidate("a");
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+});
+
+describe("AwaitCache 组件", () => {
+    function ReadCache({ cacheKey }: { cacheKey: string }) {
+        const cache = useAwaitCache();
+        return <span>{String(cache.get<string>(cacheKey)?.value ?? "miss")}</span>;
+    }
+
+    test("向子组件提供传入的 store", () => {
+        const store = new AwaitCacheStore();
+        store.set("greeting", "hello");
+
+        render(
+            <AwaitCache store={store}>
+                <ReadCache cacheKey="greeting" />
+            </AwaitCache>
+        );
+
+        expect(screen.getByText("hello")).toBeTruthy();
+    });
+
+    test("未传入 store 时创建独立的缓存", () => {
+        render(
+            <AwaitCache>
+                <ReadCache cacheKey="greeting" />
+            </AwaitCache>
+        );
+
+        expect(screen.getByText("miss")).toBeTruthy();
+    });
+
+    test("没有 provider 时使用全局缓存", () => {
+        function WriteAndRead() {
+            const cache = useAwaitCache();
+            cache.set("global", "shared");
+            return null;
+        }
+
+        render(<WriteAndRead />);
+        render(<ReadCache cacheKey="global" />);
+
+        expect(screen.getByText("shared")).toBeTruthy();
+    });
+});
@@ -0,0 +1,213 @@
+import { createContext, type ReactNode, useContext, useState } from "react";
+
+export interface AwaitCacheOptions {
+    /** Time in milliseconds a cached value stays fresh (default: Infinity) | 缓存值保持有效的毫秒数（默认：Infinity） */
+    ttl?: number;
+}
+
+/** Cached entry | 缓存项 */
+interface CacheEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+/** Load shared by every Await waiting for the same key | 等待同一个 key 的 Await 共享的请求 */
+interface InflightEntry {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    /** Callers that have not aborted yet | 尚未中止的调用方数量 */
+    waiting: number;
+}
+
+/**
+ * Keyed store of fulfilled Await values
+ *
+ * 按 key 保存 Await fulfilled 值的缓存
+ *
+ * @example
+ * const cache = new AwaitCacheStore({ ttl: 60_000 });
+ * cache.invalidate("user:1");
+ */
+export class AwaitCacheStore {
+    private readonly ttl: number;
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly listeners = new Map<string, Set<() => void>>();
+    private readonly inflight = new Map<string, InflightEntry>();
+
+    constructor({ ttl = Number.POSITIVE_INFINITY }: AwaitCacheOptions = {}) {
+        this.ttl = ttl;
+    }
+
+    /** Get a fresh cached value, expired entries are removed | 获取未过期的缓存值，过期项会被移除 */
+    get<T>(key: string): { value: T } | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return { value: entry.value as T };
+    }
+
+    /** Store a value under key | 以 key 保存值 */
+    set<T>(key: string, value: T): void {
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+    }
+
+    /**
+     * Share one in-flight load per key and cache its fulfilled value, the load is aborted once every caller has aborted
+     *
+     * 每个 key 共享同一个进行中的请求并缓存 fulfilled 的值，所有调用方都中止后才中止请求
+     */
+    load<T>(key: string, signal: AbortSignal, load: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        let entry = this.inflight.get(key);
+        if (!entry) {
+            const controller = new AbortController();
+            // 同步抛出的错误也视为 rejected
+            const promise = new Promise<T>((resolve, reject) => {
+                load(controller.signal).then(resolve, reject);
+            });
+            const created: InflightEntry = { promise, controller, waiting: 0 };
+            promise.then(
+                (value) => {
+                    if (this.inflight.get(key) === created) {
+                        this.inflight.delete(key);
+                        this.set(key, value);
+                    }
+                },
+                () => {
+                    if (this.inflight.get(key) === created) {
+                        this.inflight.delete(key);
+                    }
+                }
+            );
+            this.inflight.set(key, created);
+            entry = created;
+        }
+
+        const joined = entry;
+        joined.waiting++;
+        signal.addEventListener(
+            "abort",
+            () => {
+                joined.waiting--;
+                if (joined.waiting === 0) {
+                    if (this.inflight.get(key) === joined) {
+                        this.inflight.delete(key);
+                    }
+                    joined.controller.abort(signal.reason);
+                }
+            },
+            { once: true }
+        );
+        return joined.promise as Promise<T>;
+    }
+
+    /** Export fresh values as a plain object, e.g. for serialization | 以普通对象导出未过期的值，例如用于序列化 */
+    dehydrate(): Record<string, unknown> {
+        const data: Record<string, unknown> = {};
+        for (const key of this.entries.keys()) {
+            const cached = this.get(key);
+            if (cached) {
+                data[key] = cached.value;
+            }
+        }
+        return data;
+    }
+
+    /** Seed values from a plain object created by dehydrate | 使用 dehydrate 导出的普通对象填充缓存 */
+    hydrate(data: Record<string, unknown>): void {
+        for (const [key, value] of Object.entries(data)) {
+            this.set(key, value);
+        }
+    }
+
+    /** Remove a cached value (or all values when key is omitted) and notify mounted Awaits to reload | 移除缓存值（不传 key 时移除全部），并通知已挂载的 Await 重新加载 */
+    invalidate(key?: string): void {
+        const keys = key === undefined ? [...this.listeners.keys()] : [key];
+        if (key === undefined) {
+            this.entries.clear();
+            this.inflight.clear();
+        } else {
+            this.entries.delete(key);
+            // 之后的加载不再加入旧的请求
+            this.inflight.delete(key);
+        }
+
+        for (const invalidatedKey of keys) {
+            for (const listener of this.listeners.get(invalidatedKey) ?? []) {
+                listener();
+            }
+        }
+    }
+
+    /** Listen for invalidation of key, returns an unsubscribe function | 监听 key 的失效，返回取消监听的函数 */
+    subscribe(key: string, listener: () => void): () => void {
+        let keyListeners = this.listeners.get(key);
+        if (!keyListeners) {
+            keyListeners = new Set();
+            this.listeners.set(key, keyListeners);
+        }
+        keyListeners.add(listener);
+
+        return () => {
+            keyListeners.delete(listener);
+            if (keyListeners.size === 0) {
+                this.listeners.delete(key);
+            }
+        };
+    }
+}
+
+/** Shared store used when there is no AwaitCache provider | 没有 AwaitCache provider 时使用的共享缓存 */
+const AwaitCacheContext = createContext(new AwaitCacheStore());
+
+export interface AwaitCacheProps extends AwaitCacheOptions {
+    /** Store to provide, a new one is created when omitted | 要提供的缓存，未提供时自动创建 */
+    store?: AwaitCacheStore;
+    /** Child components | 子组件 */
+    children: ReactNode;
+}
+
+/**
+ * Provide a scoped cache for `Await` components with `cacheKey`
+ *
+ * 为使用 `cacheKey` 的 `Await` 组件提供独立的缓存
+ *
+ * Without a provider, `Await` uses a shared global cache.
+ *
+ * 没有 provider 时，`Await` 使用全局共享的缓存。
+ *
+ * @example
+ * // Scoped cache with TTL | 带 TTL 的独立缓存
+ * <AwaitCache ttl={60_000}>
+ *   <App />
+ * </AwaitCache>
+ *
+ * @example
+ * // Provide an existing store to invalidate from outside React | 提供已有的缓存，以便在 React 之外使其失效
+ * const cache = new AwaitCacheStore();
+ * <AwaitCache store={cache}>
+ *   <App />
+ * </AwaitCache>
+ */
+export function AwaitCache({ store, ttl, children }: AwaitCacheProps): ReactNode {
+    const [ownStore] = useState(() => store ?? new AwaitCacheStore({ ttl }));
+
+    return <AwaitCacheContext.Provider value={store ?? ownStore}>{children}</AwaitCacheContext.Provider>;
+}
+
+/**
+ * Get the nearest Await cache store
+ *
+ * 获取最近的 Await 缓存
+ *
+ * @example
+ * const cache = useAwaitCache();
+ * <button onClick={() => cache.invalidate(`user:${id}`)}>Refresh</button>
+ */
+export function useAwaitCache(): AwaitCacheStore {
+    return useContext(AwaitCacheContext);
+}
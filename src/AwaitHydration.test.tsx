@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { Await } from "./Await";
+import { AwaitCache, AwaitCacheStore } from "./AwaitCache";
+import { AwaitHydrationScript, AwaitServerCache, hydrateAwaitCache } from "./AwaitHydration";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+    delete (window as unknown as Record<string, unknown>).__AWAIT_DATA__;
+});
+
+// 创建延迟 Promise
+function delay<T>(ms: number, value: T): Promise<T> {
+    return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+describe("AwaitServerCache", () => {
+    test("首次渲染收集 Promise，等待后再次渲染输出 fulfilled 内容", async () => {
+        const fetcher = mock(() => delay(5, "Alice"));
+        const cache = new AwaitServerCache();
+        const app = (
+            <AwaitCache store={cache}>
+                <Await fetcher={fetcher} cacheKey="user" loading={<span>Loading...</span>}>
+                    {(name) => <span>Hello, {name}</span>}
+                </Await>
+            </AwaitCache>
+        );
+
+        expect(renderToString(app)).toContain("Loading...");
+        expect(cache.hasPending).toBe(true);
+
+        await cache.waitForAll();
+        expect(cache.hasPending).toBe(false);
+        expect(renderToString(app)).toContain("Hello, <!-- -->Alice");
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    test("相同 key 只收集一次", async () => {
+        const factory = mock(() => delay(5, 1));
+        const cache = new AwaitServerCache();
+
+        renderToString(
+            <AwaitCache store={cache}>
+                <Await promise={factory} cacheKey="count">
+                    {(count) => <span>{count}</span>}
+                </Await>
+                <Await promise={factory} cacheKey="count">
+                    {(count) => <span>{count}</span>}
+                </Await>
+            </AwaitCache>
+        );
+        await cache.waitForAll();
+
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(cache.get("count")).toEqual({ value: 1 });
+    });
+
+    test("rejected 的值不缓存", async () => {
+        const cache = new AwaitServerCache();
+        cache.track("failed", () => Promise.reject(new Error("Failed")));
+
+        await cache.waitForAll();
+        expect(cache.get("failed")).toBeUndefined();
+    });
+
+    test("没有 cacheKey 的 Await 不会被收集", () => {
+        const cache = new AwaitServerCache();
+        renderToString(
+            <AwaitCache store={cache}>
+                <Await promise={delay(5, "ignored")}>{(value) => <span>{value}</span>}</Await>
+            </AwaitCache>
+        );
+        expect(cache.hasPending).toBe(false);
+    });
+});
+
+describe("AwaitHydrationScript", () => {
+    test("输出注入数据的 script 并转义特殊字符", () => {
+        const cache = new AwaitCacheStore();
+        cache.set("html", "</script><script>alert(1)</script>");
+
+        const html = renderToString(<AwaitHydrationScript cache={cache} />);
+
+        expect(html).toContain('window["__AWAIT_DATA__"]=');
+        expect(html).not.toContain("</script><script>");
+        expect(html).toContain("\\u003c/script>");
+    });
+
+    test("支持自定义变量名和 nonce", () => {
+        const cache = new AwaitCacheStore();
+        cache.set("a", 1);
+
+        const html = renderToString(<AwaitHydrationScript cache={cache} name="__DATA__" nonce="abc" />);
+
+        expect(html).toContain('nonce="abc"');
+        expect(html).toContain('window["__DATA__"]={"a":1};');
+    });
+});
+
+describe("hydrateAwaitCache", () => {
+    test("使用全局变量中的数据填充缓存", () => {
+        (window as unknown as Record<string, unknown>).__AWAIT_DATA__ = { user: { name: "Alice" } };
+
+        const cache = hydrateAwaitCache();
+
+        expect(cache.get("user")).toEqual({ value: { name: "Alice" } });
+    });
+
+    test("没有注入数据时返回空缓存", () => {
+        const cache = hydrateAwaitCache();
+        expect(cache.dehydrate()).toEqual({});
+    });
+
+    test("hydration 时直接渲染 fulfilled 内容，不再重新请求", async () => {
+        const server = new AwaitServerCache();
+        const serverApp = (
+            <AwaitCache store={server}>
+                <Await fetcher={() => delay(5, "Alice")} cacheKey="user" loading={<span>Loading...</span>}>
+                    {(name) => <span>Hello, {name}</span>}
+                </Await>
+            </AwaitCache>
+        );
+        renderToString(serverApp);
+        await server.waitForAll();
+
+        const container = document.createElement("div");
+        container.innerHTML = renderToString(serverApp);
+        document.body.appendChild(container);
+        // 模拟执行注入的 script
+        (window as unknown as Record<string, unknown>).__AWAIT_DATA__ = JSON.parse(JSON.stringify(server.dehydrate()));
+
+        const fetcher = mock(() => delay(5, "Refetched"));
+        render(
+            <AwaitCache store={hydrateAwaitCache()}>
+                <Await fetcher={fetcher} cacheKey="user" loading={<span>Loading...</span>}>
+                    {(name) => <span>Hello, {name}</span>}
+                </Await>
+            </AwaitCache>,
+            { container, hydrate: true }
+        );
+
+        expect(screen.queryByText("Loading...")).toBeNull();
+        expect(screen.getByText("Hello, Alice")).toBeTruthy();
+        expect(fetcher).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,107 @@
+import type { ReactNode } from "react";
+import { type AwaitCacheOptions, AwaitCacheStore } from "./AwaitCache";
+
+/** Default global variable holding serialized values | 保存序列化数据的默认全局变量名 */
+const DEFAULT_NAME = "__AWAIT_DATA__";
+
+/**
+ * Server-side Await cache that collects promises of `Await` components with `cacheKey`
+ *
+ * 服务端使用的 Await 缓存，收集带有 `cacheKey` 的 `Await` 组件的 Promise
+ *
+ * Render once to collect, wait for the promises, then render again to output fulfilled content.
+ *
+ * 先渲染一次进行收集，等待 Promise 完成后再次渲染，即可输出 fulfilled 的内容。
+ *
+ * @example
+ * const cache = new AwaitServerCache();
+ * const app = <AwaitCache store={cache}><App /></AwaitCache>;
+ *
+ * renderToString(app);
+ * await cache.waitForAll();
+ * const html = renderToString(<>{app}<AwaitHydrationScript cache={cache} /></>);
+ */
+export class AwaitServerCache extends AwaitCacheStore {
+    private readonly tracked = new Set<string>();
+    private readonly pending = new Map<string, Promise<unknown>>();
+
+    /** Whether there are collected promises not yet waited for | 是否还有尚未等待的 Promise */
+    get hasPending(): boolean {
+        return this.pending.size > 0;
+    }
+
+    /** Collect the promise for key, each key is loaded at most once | 收集 key 对应的 Promise，每个 key 最多加载一次 */
+    track(key: string, load: () => unknown): void {
+        if (this.tracked.has(key)) {
+            return;
+        }
+        this.tracked.add(key);
+        this.pending.set(
+            key,
+            new Promise((resolve) => resolve(load())).then(
+                (value) => this.set(key, value),
+                // rejected 的值不缓存，交给客户端重新加载
+                () => {}
+            )
+        );
+    }
+
+    /** Wait for all collected promises and store their values | 等待所有已收集的 Promise 并保存其值 */
+    async waitForAll(): Promise<void> {
+        const pending = [...this.pending.values()];
+        this.pending.clear();
+        await Promise.all(pending);
+    }
+}
+
+/** Serialize data into a script-safe JSON string | 将数据序列化为可以安全放入 script 的 JSON 字符串 */
+function serialize(data: Record<string, unknown>): string {
+    return JSON.stringify(data)
+        .replace(/</g, "\\u003c")
+        .replace(/\u2028/g, "\\u2028")
+        .replace(/\u2029/g, "\\u2029");
+}
+
+export interface AwaitHydrationScriptProps {
+    /** Cache whose values are serialized | 需要序列化的缓存 */
+    cache: AwaitCacheStore;
+    /** Global variable name (default: "__AWAIT_DATA__") | 全局变量名（默认："__AWAIT_DATA__"） */
+    name?: string;
+    /** Nonce for Content Security Policy | 用于内容安全策略的 nonce */
+    nonce?: string;
+}
+
+/**
+ * Render a script that seeds fulfilled Await values on the client, values must be JSON-serializable
+ *
+ * 渲染一个在客户端注入 Await fulfilled 值的 script，值需要可以被 JSON 序列化
+ *
+ * @example
+ * <body>
+ *   <div id="root">{app}</div>
+ *   <AwaitHydrationScript cache={cache} />
+ * </body>
+ */
+export function AwaitHydrationScript({ cache, name = DEFAULT_NAME, nonce }: AwaitHydrationScriptProps): ReactNode {
+    const html = `window[${JSON.stringify(name)}]=${serialize(cache.dehydrate())};`;
+    // biome-ignore lint/security/noDangerouslySetInnerHtml: 内容已经过转义
+    return <script nonce={nonce} dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+/**
+ * Create a client cache seeded with values injected by AwaitHydrationScript
+ *
+ * 创建使用 AwaitHydrationScript 注入的值填充的客户端缓存
+ *
+ * @example
+ * const cache = hydrateAwaitCache();
+ * hydrateRoot(container, <AwaitCache store={cache}><App /></AwaitCache>);
+ */
+export function hydrateAwaitCache(name: string = DEFAULT_NAME, options?: AwaitCacheOptions): AwaitCacheStore {
+    const cache = new AwaitCacheStore(options);
+    const data = typeof window === "undefined" ? undefined : (window as unknown as Record<string, unknown>)[name];
+    if (data && typeof data === "object") {
+        cache.hydrate(data as Record<string, unknown>);
+    }
+    return cache;
+}
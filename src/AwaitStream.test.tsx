@@ -0,0 +1,377 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen, waitFor } from "@testing-library/react";
+import { memo, StrictMode } from "react";
+import { AwaitStream } from "./AwaitStream";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+});
+
+// 创建一个可以手动推送 chunk 的 AsyncIterable
+function createControllableStream<T>() {
+    const queue: IteratorResult<T>[] = [];
+    let pending: ((result: IteratorResult<T>) => void) | null = null;
+    let fail: ((error: unknown) => void) | null = null;
+    let returned = false;
+
+    const push = (result: IteratorResult<T>) => {
+        if (pending) {
+            pending(result);
+            pending = null;
+        } else {
+            queue.push(result);
+        }
+    };
+
+    const stream: AsyncIterable<T> = {
+        [Symbol.asyncIterator]: () => ({
+            next: () => {
+                const queued = queue.shift();
+                if (queued) {
+                    return Promise.resolve(queued);
+                }
+                return new Promise<IteratorResult<T>>((resolve, reject) => {
+                    pending = resolve;
+                    fail = reject;
+                });
+            },
+            return: () => {
+                returned = true;
+                return Promise.resolve({ done: true, value: undefined });
+            },
+        }),
+    };
+
+    return {
+        stream,
+        emit: (value: T) => push({ done: false, value }),
+        end: () => push({ done: true, value: undefined }),
+        error: (err: unknown) => fail?.(err),
+        isReturned: () => returned,
+    };
+}
+
+describe("AwaitStream 组件", () => {
+    describe("AsyncIterable", () => {
+        test("第一个 chunk 到达前显示 loading", () => {
+            const { stream } = createControllableStream<string>();
+            render(
+                <AwaitStream stream={stream} loading={<span>Loading...</span>}>
+                    {(chunks) => <span>{chunks.join("")}</span>}
+                </AwaitStream>
+            );
+            expect(screen.getByText("Loading...")).toBeTruthy();
+        });
+
+        test("每个 chunk 到达时重新渲染", async () => {
+            const { stream, emit, end } = createControllableStream<string>();
+            render(
+                <AwaitStream stream={stream} loading={<span>Loading...</span>}>
+                    {(chunks, done) => (
+                        <span>
+                            {chunks.join(",")}
+                            {done ? " (done)" : ""}
+                        </span>
+                    )}
+                </AwaitStream>
+            );
+
+            emit("a");
+            await waitFor(() => {
+                expect(screen.getByText("a")).toBeTruthy();
+            });
+
+            emit("b");
+            await waitFor(() => {
+                expect(screen.getByText("a,b")).toBeTruthy();
+            });
+
+            end();
+            await waitFor(() => {
+                expect(screen.getByText("a,b (done)")).toBeTruthy();
+            });
+        });
+
+        test("每个 chunk 生成新数组，memo 的子组件能拿到新值", async () => {
+            const { stream, emit } = createControllableStream<string>();
+            const Lines = memo(({ lines }: { lines: string[] }) => <span>{lines.join(",")}</span>);
+            const received: string[][] = [];
+
+            render(
+                <AwaitStream stream={stream}>
+                    {(chunks) => {
+                        received.push(chunks);
+                        return <Lines lines={chunks} />;
+                    }}
+                </AwaitStream>
+            );
+
+            emit("a");
+            await waitFor(() => {
+                expect(screen.getByText("a")).toBeTruthy();
+            });
+            emit("b");
+            await waitFor(() => {
+                expect(screen.getByText("a,b")).toBeTruthy();
+            });
+
+            // 已交给渲染的数组不会被修改
+            expect(received[0]).toEqual(["a"]);
+            expect(received.at(-1)).not.toBe(received[0]);
+        });
+
+        test("支持 async generator", async () => {
+            async function* generate() {
+                yield 1;
+                yield 2;
+                yield 3;
+            }
+
+            render(
+                <AwaitStream stream={generate()}>
+                    {(numbers, done) => done && <span>{numbers.join("+")}</span>}
+                </AwaitStream>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("1+2+3")).toBeTruthy();
+            });
+        });
+
+        test("reduce 自定义累积方式", async () => {
+            async function* tokens() {
+                yield "Hello";
+                yield ", ";
+                yield "world";
+            }
+
+            render(
+                <AwaitStream stream={tokens()} reduce={(text: string, token: string) => text + token} initialValue="">
+                    {(text) => <span>{text}</span>}
+                </AwaitStream>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Hello, world")).toBeTruthy();
+            });
+        });
+
+        test("空流结束后使用初始值渲染", async () => {
+            async function* empty(): AsyncGenerator<string> {}
+
+            render(
+                <AwaitStream stream={empty()} loading={<span>Loading...</span>}>
+                    {(chunks, done) => <span>{done ? `Done with ${chunks.length}` : "Streaming"}</span>}
+                </AwaitStream>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Done with 0")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("ReadableStream", () => {
+        test("逐步渲染 ReadableStream 的 chunk", async () => {
+            const stream = new ReadableStream<string>({
+                start(controller) {
+                    controller.enqueue("x");
+                    controller.enqueue("y");
+                    controller.close();
+                },
+            });
+
+            render(
+                <AwaitStream stream={stream}>
+                    {(chunks, done) => (
+                        <span>
+                            {chunks.join("")}
+                            {done ? "!" : ""}
+                        </span>
+                    )}
+                </AwaitStream>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("xy!")).toBeTruthy();
+            });
+        });
+
+        test("卸载时取消 ReadableStream", async () => {
+            let cancelled = false;
+            const stream = new ReadableStream<string>({
+                start(controller) {
+                    controller.enqueue("first");
+                },
+                cancel() {
+                    cancelled = true;
+                },
+            });
+
+            const { unmount } = render(
+                <AwaitStream stream={stream}>{(chunks) => <span>{chunks.join("")}</span>}</AwaitStream>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("first")).toBeTruthy();
+            });
+
+            unmount();
+            await waitFor(() => {
+                expect(cancelled).toBe(true);
+            });
+        });
+    });
+
+    describe("错误与取消", () => {
+        test("出错时 error 接收错误和已累积的值", async () => {
+            const { stream, emit, error } = createControllableStream<string>();
+            render(
+                <AwaitStream
+                    stream={stream}
+                    error={(err, chunks) => (
+                        <span>
+                            {(err as Error).message} after {chunks.join(",")}
+                        </span>
+                    )}
+                >
+                    {(chunks) => <span>{chunks.join(",")}</span>}
+                </AwaitStream>
+            );
+
+            emit("a");
+            await waitFor(() => {
+                expect(screen.getByText("a")).toBeTruthy();
+            });
+
+            error(new Error("Broken"));
+            await waitFor(() => {
+                expect(screen.getByText("Broken after a")).toBeTruthy();
+            });
+        });
+
+        test("卸载时结束 AsyncIterable", async () => {
+            const { stream, isReturned } = createControllableStream<string>();
+            const { unmount } = render(
+                <AwaitStream stream={stream}>{(chunks) => <span>{chunks.join("")}</span>}</AwaitStream>
+            );
+
+            expect(isReturned()).toBe(false);
+            unmount();
+            // 在微任务中停止
+            await waitFor(() => {
+                expect(isReturned()).toBe(true);
+            });
+        });
+
+        test("已被锁定的 ReadableStream 进入 rejected 状态", async () => {
+            const stream = new ReadableStream<string>();
+            stream.getReader();
+
+            render(
+                <AwaitStream stream={stream} error={(err) => <span>{(err as Error).name}</span>}>
+                    {(chunks) => <span>{chunks.join("")}</span>}
+                </AwaitStream>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("TypeError")).toBeTruthy();
+            });
+        });
+
+        test("stream 变化时取消旧流并重新开始累积", async () => {
+            const first = createControllableStream<string>();
+            const second = createControllableStream<string>();
+            const renderWith = (stream: AsyncIterable<string>) => (
+                <AwaitStream stream={stream} loading={<span>Loading...</span>}>
+                    {(chunks) => <span>{chunks.join(",")}</span>}
+                </AwaitStream>
+            );
+
+            const { rerender } = render(renderWith(first.stream));
+            first.emit("old");
+            await waitFor(() => {
+                expect(screen.getByText("old")).toBeTruthy();
+            });
+
+            rerender(renderWith(second.stream));
+            expect(first.isReturned()).toBe(true);
+            expect(screen.getByText("Loading...")).toBeTruthy();
+
+            second.emit("new");
+            await waitFor(() => {
+                expect(screen.getByText("new")).toBeTruthy();
+            });
+        });
+    });
+
+    describe("StrictMode", () => {
+        test("effect 重新执行时继续消费同一个 async generator", async () => {
+            async function* generate() {
+                yield "a";
+                yield "b";
+            }
+
+            render(
+                <StrictMode>
+                    <AwaitStream stream={generate()}>
+                        {(chunks, done) => (
+                            <span>
+                                {chunks.join(",")}
+                                {done ? "!" : ""}
+                            </span>
+                        )}
+                    </AwaitStream>
+                </StrictMode>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("a,b!")).toBeTruthy();
+            });
+        });
+
+        test("effect 重新执行时不会重复读取 ReadableStream", async () => {
+            const stream = new ReadableStream<string>({
+                start(controller) {
+                    controller.enqueue("x");
+                    controller.enqueue("y");
+                    controller.close();
+                },
+            });
+
+            render(
+                <StrictMode>
+                    <AwaitStream stream={stream} error={<span>Failed</span>}>
+                        {(chunks, done) => (
+                            <span>
+                                {chunks.join(",")}
+                                {done ? "!" : ""}
+                            </span>
+                        )}
+                    </AwaitStream>
+                </StrictMode>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("x,y!")).toBeTruthy();
+            });
+            expect(screen.queryByText("Failed")).toBeNull();
+        });
+
+        test("卸载时仍会取消流", async () => {
+            const { stream, isReturned } = createControllableStream<string>();
+            const { unmount } = render(
+                <StrictMode>
+                    <AwaitStream stream={stream}>{(chunks) => <span>{chunks.join("")}</span>}</AwaitStream>
+                </StrictMode>
+            );
+
+            expect(isReturned()).toBe(false);
+            unmount();
+            await waitFor(() => {
+                expect(isReturned()).toBe(true);
+            });
+        });
+    });
+});
@@ -0,0 +1,210 @@
+import { type ReactNode, useEffect, useRef, useState } from "react";
+
+/** Stream state | 流的状态 */
+type StreamState<R> =
+    | { status: "pending" | "streaming" | "done"; value: R }
+    | { status: "rejected"; value: R; error: unknown };
+
+/** Minimal iterator over a stream | 流的最小迭代器 */
+interface StreamIterator<T> {
+    next: () => Promise<IteratorResult<T>>;
+    cancel: () => void;
+}
+
+/** Consumption of one stream, kept across StrictMode effect re-runs | 一个流的消费过程，StrictMode 重复执行 effect 时保留 */
+interface StreamConsumer {
+    stream: unknown;
+    /** Stop has been scheduled by the effect cleanup | effect 清理时已安排停止 */
+    stopping: boolean;
+    stop: () => void;
+}
+
+export interface AwaitStreamProps<T, R = T[]> {
+    /** AsyncIterable or ReadableStream to consume | 要消费的 AsyncIterable 或 ReadableStream */
+    stream: AsyncIterable<T> | ReadableStream<T>;
+    /** Accumulate each chunk into the rendered value, defaults to collecting chunks into an array | 将每个 chunk 累积为渲染的值，默认收集为数组 */
+    reduce?: (accumulated: R, chunk: T) => R;
+    /** Initial accumulated value (default: []) | 初始累积值（默认：[]） */
+    initialValue?: R;
+    /** Content to show before the first chunk arrives | 第一个 chunk 到达前显示的内容 */
+    loading?: ReactNode;
+    /** Content to show when the stream errors, receives error and the value accumulated so far | 流出错时显示的内容，接收错误和已累积的值 */
+    error?: ReactNode | ((error: unknown, value: R) => ReactNode);
+    /** Content to render on each chunk, done is true once the stream ends, without reduce each chunk produces a new array | 每个 chunk 到达时渲染的内容，流结束后 done 为 true，未传入 reduce 时每个 chunk 都会生成新数组 */
+    children: ReactNode | ((value: R, done: boolean) => ReactNode);
+}
+
+/** Create an iterator for either stream type | 为两种流创建迭代器 */
+function getIterator<T>(stream: AsyncIterable<T> | ReadableStream<T>): StreamIterator<T> {
+    if (typeof (stream as ReadableStream<T>).getReader === "function") {
+        const reader = (stream as ReadableStream<T>).getReader();
+        return {
+            next: () => reader.read() as Promise<IteratorResult<T>>,
+            cancel: () => {
+                reader.cancel().catch(() => {});
+            },
+        };
+    }
+
+    const iterator = (stream as AsyncIterable<T>)[Symbol.asyncIterator]();
+    return {
+        next: () => iterator.next(),
+        cancel: () => {
+            iterator.return?.()?.catch(() => {});
+        },
+    };
+}
+
+/** Start consuming a stream, reporting every state change | 开始消费流，并上报每次状态变化 */
+function consumeStream<T, R>(
+    stream: AsyncIterable<T> | ReadableStream<T>,
+    initialValue: R | undefined,
+    getReduce: () => ((accumulated: R, chunk: T) => R) | undefined,
+    onChange: (state: StreamState<R>) => void
+): StreamConsumer {
+    let stopped = false;
+    let iterator: StreamIterator<T> | undefined;
+    let value = initialValue ?? ([] as R);
+
+    const pump = async () => {
+        try {
+            // 流已被锁定等错误同样进入 rejected 状态
+            iterator = getIterator(stream);
+            while (true) {
+                const result = await iterator.next();
+                if (stopped) {
+                    return;
+                }
+                if (result.done) {
+                    onChange({ status: "done", value });
+                    return;
+                }
+
+                const reduce = getReduce();
+                // 默认每次生成新数组，不修改已交给 React 的状态
+                value = reduce ? reduce(value, result.value) : ([...(value as T[]), result.value] as R);
+                onChange({ status: "streaming", value });
+            }
+        } catch (err) {
+            if (!stopped) {
+                onChange({ status: "rejected", value, error: err });
+            }
+        }
+    };
+
+    onChange({ status: "pending", value });
+    pump();
+
+    return {
+        stream,
+        stopping: false,
+        stop: () => {
+            if (stopped) {
+                return;
+            }
+            stopped = true;
+            iterator?.cancel();
+        },
+    };
+}
+
+/**
+ * Stream rendering component, renders AsyncIterable / ReadableStream chunks progressively
+ *
+ * 流式渲染组件，随着 AsyncIterable / ReadableStream 的 chunk 到达逐步渲染
+ *
+ * The stream is cancelled when the component unmounts or the stream prop changes.
+ * Without `reduce`, every chunk copies the collected array so memoized children see a new value,
+ * which costs O(n) per chunk; pass `reduce` to accumulate very long streams differently.
+ *
+ * 组件卸载或 stream 变化时会取消流。
+ * 未传入 `reduce` 时，每个 chunk 都会复制已收集的数组，使 memo 的子组件能拿到新值，每个 chunk 的开销为 O(n)；超长的流可以传入 `reduce` 自定义累积方式。
+ *
+ * @example
+ * // Collect chunks into an array | 将 chunk 收集为数组
+ * <AwaitStream stream={tailLogs()} loading={<Spinner />}>
+ *   {(lines) => <For each={lines}>{(line) => <LogLine line={line} />}</For>}
+ * </AwaitStream>
+ *
+ * @example
+ * // Accumulate text with reduce | 使用 reduce 累积文本
+ * <AwaitStream stream={completion} reduce={(text, token) => text + token} initialValue="">
+ *   {(text, done) => <Message text={text} typing={!done} />}
+ * </AwaitStream>
+ *
+ * @example
+ * // Keep partial output on error | 出错时保留部分输出
+ * <AwaitStream
+ *   stream={response.body.pipeThrough(new TextDecoderStream())}
+ *   reduce={(text, chunk) => text + chunk}
+ *   initialValue=""
+ *   error={(err, text) => <Partial text={text} />}
+ * >
+ *   {(text) => <pre>{text}</pre>}
+ * </AwaitStream>
+ */
+export function AwaitStream<T, R = T[]>({
+    stream,
+    reduce,
+    initialValue,
+    loading = null,
+    error = null,
+    children,
+}: AwaitStreamProps<T, R>): ReactNode {
+    const [state, setState] = useState<StreamState<R>>(() => ({
+        status: "pending",
+        value: initialValue ?? ([] as R),
+    }));
+
+    // 始终使用最新的 reduce 和初始值，内联函数不会导致流被重新消费
+    const reduceRef = useRef(reduce);
+    reduceRef.current = reduce;
+    const initialValueRef = useRef(initialValue);
+    initialValueRef.current = initialValue;
+
+    // 当前正在消费的流
+    const consumerRef = useRef<StreamConsumer | null>(null);
+
+    useEffect(() => {
+        let consumer = consumerRef.current;
+        if (consumer?.stream === stream) {
+            // StrictMode 清理后重新执行 effect，继续消费同一个流而不是重新读取
+            consumer.stopping = false;
+        } else {
+            consumer?.stop();
+            consumer = consumeStream(stream, initialValueRef.current, () => reduceRef.current, setState);
+            consumerRef.current = consumer;
+        }
+
+        const active = consumer;
+        return () => {
+            active.stopping = true;
+            // 在微任务中停止，StrictMode 立即重新执行 effect 时不会取消流
+            queueMicrotask(() => {
+                if (active.stopping) {
+                    active.stop();
+                }
+            });
+        };
+    }, [stream]);
+
+    // 第一个 chunk 到达前
+    if (state.status === "pending") {
+        return loading;
+    }
+
+    // 出错状态
+    if (state.status === "rejected") {
+        if (typeof error === "function") {
+            return error(state.error, state.value);
+        }
+        return error;
+    }
+
+    // streaming / done 状态
+    if (typeof children === "function") {
+        return children(state.value, state.status === "done");
+    }
+
+    return children;
+}
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { act, cleanup, render, screen, waitFor } from "@testing-library/react";
+import { Suspense, startTransition, useState } from "react";
+import { AwaitSuspense } from "./AwaitSuspense";
+import { ErrorBoundary } from "./ErrorBoundary";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+});
+
+// 创建一个可控的 Promise
+function createControllablePromise<T>() {
+    let resolve: (value: T) => void = () => {};
+    let reject: (error: unknown) => void = () => {};
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+describe("AwaitSuspense 组件", () => {
+    describe("pending 状态", () => {
+        test("Promise pending 时显示 Suspense fallback", () => {
+            const { promise } = createControllablePromise<string>();
+            render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise={promise}>{(data) => <span>{data}</span>}</AwaitSuspense>
+                </Suspense>
+            );
+            expect(screen.getByText("Loading...")).toBeTruthy();
+        });
+    });
+
+    describe("fulfilled 状态", () => {
+        test("Promise resolve 后渲染 children", async () => {
+            const { promise, resolve } = createControllablePromise<string>();
+            render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise={promise}>{(data) => <span>{data}</span>}</AwaitSuspense>
+                </Suspense>
+            );
+
+            await act(async () => {
+                resolve("Hello Suspense");
+            });
+
+            await waitFor(() => {
+                expect(screen.getByText("Hello Suspense")).toBeTruthy();
+            });
+        });
+
+        test("已 resolve 的 Promise 再次渲染时不再挂起", async () => {
+            const promise = Promise.resolve("Cached");
+            const { unmount } = render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise={promise}>{(data) => <span>{data}</span>}</AwaitSuspense>
+                </Suspense>
+            );
+            await waitFor(() => {
+                expect(screen.getByText("Cached")).toBeTruthy();
+            });
+            unmount();
+
+            render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise={promise}>{(data) => <span>{data}</span>}</AwaitSuspense>
+                </Suspense>
+            );
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("Cached")).toBeTruthy();
+        });
+
+        test("静态 children 不需要 Promise 的值", async () => {
+            const promise = Promise.resolve("done");
+            render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise={promise}>
+                        <span>Content loaded</span>
+                    </AwaitSuspense>
+                </Suspense>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Content loaded")).toBeTruthy();
+            });
+        });
+
+        test("传入非 Promise 值时直接渲染", () => {
+            render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise="Direct value">{(value) => <span>{value}</span>}</AwaitSuspense>
+                </Suspense>
+            );
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("Direct value")).toBeTruthy();
+        });
+    });
+
+    describe("rejected 状态", () => {
+        test("error 函数接收错误对象", async () => {
+            const promise = Promise.reject(new Error("Network error"));
+            render(
+                <Suspense fallback={<span>Loading...</span>}>
+                    <AwaitSuspense promise={promise} error={(err) => <span>Error: {(err as Error).message}</span>}>
+                        {() => <span>Success</span>}
+                    </AwaitSuspense>
+                </Suspense>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Error: Network error")).toBeTruthy();
+            });
+        });
+
+        test("未提供 error 时抛给错误边界", async () => {
+            const spy = spyOn(console, "error").mockImplementation(() => {});
+            const promise = Promise.reject(new Error("Boundary error"));
+            render(
+                <ErrorBoundary fallback={(err) => <span>Caught: {err.message}</span>}>
+                    <Suspense fallback={<span>Loading...</span>}>
+                        <AwaitSuspense promise={promise}>{() => <span>Success</span>}</AwaitSuspense>
+                    </Suspense>
+                </ErrorBoundary>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Caught: Boundary error")).toBeTruthy();
+            });
+            spy.mockRestore();
+        });
+    });
+
+    describe("transition", () => {
+        test("在 transition 中切换 Promise 时保留当前内容", async () => {
+            const first = Promise.resolve("First");
+            const second = createControllablePromise<string>();
+            let switchPromise: () => void = () => {};
+
+            function App() {
+                const [promise, setPromise] = useState<Promise<string>>(first);
+                switchPromise = () => startTransition(() => setPromise(second.promise));
+                return (
+                    <Suspense fallback={<span>Loading...</span>}>
+                        <AwaitSuspense promise={promise}>{(data) => <span>Data: {data}</span>}</AwaitSuspense>
+                    </Suspense>
+                );
+            }
+
+            render(<App />);
+            await waitFor(() => {
+                expect(screen.getByText("Data: First")).toBeTruthy();
+            });
+
+            await act(async () => {
+                switchPromise();
+            });
+            // transition 期间不显示 fallback
+            expect(screen.queryByText("Loading...")).toBeNull();
+            expect(screen.getByText("Data: First")).toBeTruthy();
+
+            await act(async () => {
+                second.resolve("Second");
+            });
+            await waitFor(() => {
+                expect(screen.getByText("Data: Second")).toBeTruthy();
+            });
+        });
+    });
+});
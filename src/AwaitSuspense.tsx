@@ -0,0 +1,96 @@
+import type { ReactNode } from "react";
+import type { PromiseState } from "./Await";
+
+export interface AwaitSuspenseProps<T> {
+    /** Promise to wait for, must be stable across renders (create it outside render or memoize it) | 要等待的 Promise，需要在多次渲染间保持稳定（在渲染外创建或使用 memo） */
+    promise: Promise<T> | T;
+    /** Content to show when Promise is rejected, rethrows to the nearest error boundary if omitted | Promise rejected 时显示的内容，未提供时抛给最近的错误边界 */
+    error?: ReactNode | ((error: unknown) => ReactNode);
+    /** Content to render when Promise is fulfilled | Promise fulfilled 时渲染的内容 */
+    children: ReactNode | ((data: T) => ReactNode);
+}
+
+/** Status cache of tracked promises, entries are released with the promise | 已追踪 Promise 的状态缓存，随 Promise 一起被回收 */
+const promiseStates = new WeakMap<Promise<unknown>, PromiseState<unknown>>();
+
+/** Read the tracked state of a promise, starts tracking on first read | 读取 Promise 的追踪状态，首次读取时开始追踪 */
+function readPromise<T>(promise: Promise<T>): PromiseState<T> {
+    const cached = promiseStates.get(promise) as PromiseState<T> | undefined;
+    if (cached) {
+        return cached;
+    }
+
+    promiseStates.set(promise, { status: "pending" });
+    promise.then(
+        (value) => {
+            promiseStates.set(promise, { status: "fulfilled", value });
+        },
+        (error) => {
+            promiseStates.set(promise, { status: "rejected", error });
+        }
+    );
+
+    return { status: "pending" };
+}
+
+/**
+ * Suspense-based async component, suspends while the Promise is pending
+ *
+ * 基于 Suspense 的异步组件，Promise pending 时挂起
+ *
+ * Unlike `Await`, loading state is handled by the nearest `<Suspense>` boundary,
+ * so it works with transitions and streaming SSR.
+ *
+ * 与 `Await` 不同，加载状态由最近的 `<Suspense>` 边界处理，
+ * 因此可以配合 transition 和流式 SSR 使用。
+ *
+ * @example
+ * // Basic usage | 基础用法
+ * <Suspense fallback={<Spinner />}>
+ *   <AwaitSuspense promise={userPromise}>
+ *     {(user) => <UserProfile user={user} />}
+ *   </AwaitSuspense>
+ * </Suspense>
+ *
+ * @example
+ * // Rejections go to the nearest ErrorBoundary | rejected 时交给最近的 ErrorBoundary
+ * <ErrorBoundary fallback={<ErrorPage />}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <AwaitSuspense promise={dataPromise}>
+ *       {(data) => <DataView data={data} />}
+ *     </AwaitSuspense>
+ *   </Suspense>
+ * </ErrorBoundary>
+ *
+ * @example
+ * // Keep current content while switching promises in a transition | 在 transition 中切换 Promise 时保留当前内容
+ * startTransition(() => setUserPromise(fetchUser(nextId)));
+ */
+export function AwaitSuspense<T>({ promise, error, children }: AwaitSuspenseProps<T>): ReactNode {
+    // 非 Promise 值直接视为 fulfilled
+    const state: PromiseState<T> =
+        promise instanceof Promise ? readPromise(promise) : { status: "fulfilled", value: promise };
+
+    // pending 状态：抛出 Promise，交给 Suspense 处理
+    if (state.status === "pending") {
+        throw promise;
+    }
+
+    // rejected 状态：未提供 error 时抛给错误边界
+    if (state.status === "rejected") {
+        if (error === undefined) {
+            throw state.error;
+        }
+        if (typeof error === "function") {
+            return error(state.error);
+        }
+        return error;
+    }
+
+    // fulfilled 状态
+    if (typeof children === "function") {
+        return children(state.value);
+    }
+
+    return children;
+}
@@ -1,8 +1,8 @@
-import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
-import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, jest, mock, spyOn, test } from "bun:test";
+import { act, cleanup, render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
-import { type ReactNode, useState } from "react";
-import { ErrorBoundary } from "./ErrorBoundary";
+import { Component, createRef, forwardRef, type ReactNode, useEffect, useState } from "react";
+import { ErrorBoundary, type ErrorBoundaryRetryInfo, useErrorBoundary, withErrorBoundary } from "./ErrorBoundary";
 
 // 每个测试后清理
 afterEach(() => {
@@ -257,6 +257,932 @@ describe("ErrorBoundary 组件", () => {
         });
     });
 
+    describe("resetKeys 功能", () => {
+        test("任一 key 变化时重置并调用 onReset", () => {
+            const spy = suppressConsoleError();
+            const onReset = mock(() => {});
+            const renderWith = (shouldThrow: boolean, keys: unknown[]) => (
+                <ErrorBoundary fallback={<span>Error state</span>} resetKeys={keys} onReset={onReset}>
+                    <ConditionalError shouldThrow={shouldThrow} />
+                </ErrorBoundary>
+            );
+
+            const { rerender } = render(renderWith(true, ["/home", "all"]));
+            expect(screen.getByText("Error state")).toBeTruthy();
+
+            rerender(renderWith(false, ["/home", "active"]));
+
+            expect(screen.getByText("No error")).toBeTruthy();
+            expect(onReset).toHaveBeenCalledTimes(1);
+            expect(onReset).toHaveBeenCalledWith({ reason: "keys", prev: ["/home", "all"], next: ["/home", "active"] });
+            spy.mockRestore();
+        });
+
+        test("内容相同的新数组不会重置", () => {
+            const spy = suppressConsoleError();
+            const onReset = mock(() => {});
+            const renderWith = (keys: unknown[]) => (
+                <ErrorBoundary fallback={<span>Error state</span>} resetKeys={keys} onReset={onReset}>
+                    <ThrowError message="Test error" />
+                </ErrorBoundary>
+            );
+
+            const { rerender } = render(renderWith([1, Number.NaN]));
+            rerender(renderWith([1, Number.NaN]));
+
+            expect(screen.getByText("Error state")).toBeTruthy();
+            expect(onReset).not.toHaveBeenCalled();
+            spy.mockRestore();
+        });
+
+        test("长度变化时重置", () => {
+            const spy = suppressConsoleError();
+            const renderWith = (shouldThrow: boolean, keys: unknown[]) => (
+                <ErrorBoundary fallback={<span>Error state</span>} resetKeys={keys}>
+                    <ConditionalError shouldThrow={shouldThrow} />
+                </ErrorBoundary>
+            );
+
+            const { rerender } = render(renderWith(true, [1]));
+            rerender(renderWith(false, [1, 2]));
+
+            expect(screen.getByText("No error")).toBeTruthy();
+            spy.mockRestore();
+        });
+
+        test("没有错误时 key 变化不调用 onReset", () => {
+            const onReset = mock(() => {});
+            const { rerender } = render(
+                <ErrorBoundary fallback={<span>Error state</span>} resetKeys={[1]} onReset={onReset}>
+                    <NormalComponent />
+                </ErrorBoundary>
+            );
+
+            rerender(
+                <ErrorBoundary fallback={<span>Error state</span>} resetKeys={[2]} onReset={onReset}>
+                    <NormalComponent />
+                </ErrorBoundary>
+            );
+
+            expect(onReset).not.toHaveBeenCalled();
+        });
+
+        test("key 变化引发的错误不会被立即重置", () => {
+            const spy = suppressConsoleError();
+            const onReset = mock(() => {});
+            const onError = mock(() => {});
+            const renderWith = (shouldThrow: boolean, keys: unknown[]) => (
+                <ErrorBoundary fallback={<span>Error state</span>} resetKeys={keys} onReset={onReset} onError={onError}>
+                    <ConditionalError shouldThrow={shouldThrow} />
+                </ErrorBoundary>
+            );
+
+            const { rerender } = render(renderWith(false, [1]));
+            rerender(renderWith(true, [2]));
+
+            expect(screen.getByText("Error state")).toBeTruthy();
+            expect(onReset).not.toHaveBeenCalled();
+            expect(onError).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+
+        test("resetKey 变化时 onReset 接收单个 key", () => {
+            const spy = suppressConsoleError();
+            const onReset = mock(() => {});
+            const renderWith = (shouldThrow: boolean, key: string) => (
+                <ErrorBoundary fallback={<span>Error state</span>} resetKey={key} onReset={onReset}>
+                    <ConditionalError shouldThrow={shouldThrow} />
+                </ErrorBoundary>
+            );
+
+            const { rerender } = render(renderWith(true, "a"));
+            rerender(renderWith(false, "b"));
+
+            expect(onReset).toHaveBeenCalledWith({ reason: "keys", prev: ["a"], next: ["b"] });
+            spy.mockRestore();
+        });
+
+        test("调用 reset 时 reason 为 imperative", async () => {
+            const spy = suppressConsoleError();
+            const onReset = mock(() => {});
+
+            render(
+                <ErrorBoundary
+                    fallback={(_error, reset) => (
+                        <button type="button" onClick={reset}>
+                            Reset
+                        </button>
+                    )}
+                    onReset={onReset}
+                >
+                    <ThrowError message="Test error" />
+                </ErrorBoundary>
+            );
+
+            await userEvent.click(screen.getByText("Reset"));
+
+            expect(onReset).toHaveBeenCalledWith({ reason: "imperative" });
+            spy.mockRestore();
+        });
+    });
+
+    describe("escalate 与错误边界路径", () => {
+        test("fallback 可以将错误交给上层错误边界", async () => {
+            const spy = suppressConsoleError();
+            const outerOnError = mock(() => {});
+
+            function ChartFallback() {
+                const { escalate } = useErrorBoundary();
+                return (
+                    <button type="button" onClick={() => escalate(new Error("Chart unavailable"))}>
+                        Give up
+                    </button>
+                );
+            }
+
+            render(
+                <ErrorBoundary
+                    name="Dashboard"
+                    fallback={(error) => <span>Dashboard: {error.message}</span>}
+                    onError={outerOnError}
+                >
+                    <ErrorBoundary name="Chart" fallback={<ChartFallback />}>
+                        <ThrowError message="Render failed" />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            expect(outerOnError).not.toHaveBeenCalled();
+
+            await userEvent.click(screen.getByText("Give up"));
+
+            expect(screen.getByText("Dashboard: Chart unavailable")).toBeTruthy();
+            expect(outerOnError).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+
+        test("children 中调用 escalate 跳过最近的错误边界", async () => {
+            const spy = suppressConsoleError();
+
+            function Widget() {
+                const { escalate } = useErrorBoundary();
+                return (
+                    <button type="button" onClick={() => escalate(new Error("Fatal"))}>
+                        Escalate
+                    </button>
+                );
+            }
+
+            render(
+                <ErrorBoundary fallback={(error) => <span>Outer: {error.message}</span>}>
+                    <ErrorBoundary fallback={<span>Inner fallback</span>}>
+                        <Widget />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            await userEvent.click(screen.getByText("Escalate"));
+
+            expect(screen.getByText("Outer: Fatal")).toBeTruthy();
+            expect(screen.queryByText("Inner fallback")).toBeNull();
+            spy.mockRestore();
+        });
+
+        test("上层错误边界重置后重新渲染内层内容", async () => {
+            const spy = suppressConsoleError();
+
+            function Widget() {
+                const { escalate } = useErrorBoundary();
+                return (
+                    <button type="button" onClick={() => escalate(new Error("Fatal"))}>
+                        Escalate
+                    </button>
+                );
+            }
+
+            render(
+                <ErrorBoundary
+                    fallback={(_error, reset) => (
+                        <button type="button" onClick={reset}>
+                            Reset outer
+                        </button>
+                    )}
+                >
+                    <ErrorBoundary fallback={<span>Inner fallback</span>}>
+                        <Widget />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            await userEvent.click(screen.getByText("Escalate"));
+            await userEvent.click(screen.getByText("Reset outer"));
+
+            expect(screen.getByText("Escalate")).toBeTruthy();
+            spy.mockRestore();
+        });
+
+        test("useErrorBoundary 返回具名错误边界的路径", () => {
+            function PathView() {
+                const { path } = useErrorBoundary();
+                return <span>{path.join(" > ")}</span>;
+            }
+
+            render(
+                <ErrorBoundary name="App" fallback={null}>
+                    <ErrorBoundary fallback={null}>
+                        <ErrorBoundary name="Dashboard" fallback={null}>
+                            <ErrorBoundary name="Chart" fallback={null}>
+                                <PathView />
+                            </ErrorBoundary>
+                        </ErrorBoundary>
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            expect(screen.getByText("App > Dashboard > Chart")).toBeTruthy();
+        });
+    });
+
+    describe("错误过滤", () => {
+        class NetworkError extends Error {}
+
+        function ThrowNetworkError(): ReactNode {
+            throw new NetworkError("Offline");
+        }
+
+        test("catch 中的错误类型由当前边界处理", () => {
+            const spy = suppressConsoleError();
+
+            render(
+                <ErrorBoundary fallback={<span>Outer fallback</span>}>
+                    <ErrorBoundary fallback={<span>Network fallback</span>} catch={[NetworkError]}>
+                        <ThrowNetworkError />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            expect(screen.getByText("Network fallback")).toBeTruthy();
+            expect(screen.queryByText("Outer fallback")).toBeNull();
+            spy.mockRestore();
+        });
+
+        test("其他错误冒泡到外层边界", () => {
+            const spy = suppressConsoleError();
+            const innerOnError = mock(() => {});
+            const outerOnError = mock(() => {});
+
+            render(
+                <ErrorBoundary fallback={<span>Outer fallback</span>} onError={outerOnError}>
+                    <ErrorBoundary
+                        fallback={<span>Network fallback</span>}
+                        catch={[NetworkError]}
+                        onError={innerOnError}
+                    >
+                        <ThrowError message="Programming error" />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            expect(screen.getByText("Outer fallback")).toBeTruthy();
+            expect(screen.queryByText("Network fallback")).toBeNull();
+            expect(innerOnError).not.toHaveBeenCalled();
+            expect(outerOnError).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+
+        test("shouldCatch 返回 false 时冒泡到外层边界", () => {
+            const spy = suppressConsoleError();
+            const shouldCatch = mock((error: Error) => error.message.startsWith("Expected"));
+
+            const { unmount } = render(
+                <ErrorBoundary fallback={<span>Outer fallback</span>}>
+                    <ErrorBoundary fallback={<span>Inner fallback</span>} shouldCatch={shouldCatch}>
+                        <ThrowError message="Expected failure" />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+            expect(screen.getByText("Inner fallback")).toBeTruthy();
+            unmount();
+
+            render(
+                <ErrorBoundary fallback={<span>Outer fallback</span>}>
+                    <ErrorBoundary fallback={<span>Inner fallback</span>} shouldCatch={shouldCatch}>
+                        <ThrowError message="Unexpected failure" />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+            expect(screen.getByText("Outer fallback")).toBeTruthy();
+            spy.mockRestore();
+        });
+
+        test("同时提供时两个条件都需要满足", () => {
+            const spy = suppressConsoleError();
+
+            render(
+                <ErrorBoundary fallback={<span>Outer fallback</span>}>
+                    <ErrorBoundary
+                        fallback={<span>Inner fallback</span>}
+                        catch={[NetworkError]}
+                        shouldCatch={(error) => error.message !== "Offline"}
+                    >
+                        <ThrowNetworkError />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            expect(screen.getByText("Outer fallback")).toBeTruthy();
+            spy.mockRestore();
+        });
+    });
+
+    describe("resetOn", () => {
+        // 由外部控制是否抛出错误
+        const control = { shouldThrow: true };
+
+        function Flaky(): ReactNode {
+            if (control.shouldThrow) {
+                throw new Error("Flaky error");
+            }
+            return <span>Recovered</span>;
+        }
+
+        test("online 事件触发时重置", () => {
+            const spy = suppressConsoleError();
+            const onReset = mock(() => {});
+            control.shouldThrow = true;
+
+            render(
+                <ErrorBoundary fallback={<span>Offline</span>} resetOn="online" onReset={onReset}>
+                    <Flaky />
+                </ErrorBoundary>
+            );
+            expect(screen.getByText("Offline")).toBeTruthy();
+
+            control.shouldThrow = false;
+            act(() => {
+                window.dispatchEvent(new Event("online"));
+            });
+
+            expect(screen.getByText("Recovered")).toBeTruthy();
+            expect(onReset).toHaveBeenCalledWith({ reason: "event" });
+            spy.mockRestore();
+        });
+
+        test("支持多个事件", () => {
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+
+            render(
+                <ErrorBoundary fallback={<span>Error state</span>} resetOn={["online", "focus"]}>
+                    <Flaky />
+                </ErrorBoundary>
+            );
+
+            control.shouldThrow = false;
+            act(() => {
+                window.dispatchEvent(new Event("focus"));
+            });
+
+            expect(screen.getByText("Recovered")).toBeTruthy();
+            spy.mockRestore();
+        });
+
+        test("visibilitychange 仅在页面可见时重置", () => {
+            const spy = suppressConsoleError();
+            let visibilityState: DocumentVisibilityState = "hidden";
+            Object.defineProperty(document, "visibilityState", { configurable: true, get: () => visibilityState });
+            control.shouldThrow = true;
+
+            try {
+                render(
+                    <ErrorBoundary fallback={<span>Error state</span>} resetOn="visibilitychange">
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+
+                control.shouldThrow = false;
+                act(() => {
+                    document.dispatchEvent(new Event("visibilitychange"));
+                });
+                expect(screen.getByText("Error state")).toBeTruthy();
+
+                visibilityState = "visible";
+                act(() => {
+                    document.dispatchEvent(new Event("visibilitychange"));
+                });
+                expect(screen.getByText("Recovered")).toBeTruthy();
+            } finally {
+                // 恢复原型上的 visibilityState
+                Reflect.deleteProperty(document, "visibilityState");
+                spy.mockRestore();
+            }
+        });
+
+        test("支持自定义订阅函数", () => {
+            const spy = suppressConsoleError();
+            const unsubscribe = mock(() => {});
+            let triggerReset = () => {};
+            const subscribe = mock((reset: () => void) => {
+                triggerReset = reset;
+                return unsubscribe;
+            });
+            control.shouldThrow = true;
+
+            render(
+                <ErrorBoundary fallback={<span>Error state</span>} resetOn={subscribe}>
+                    <Flaky />
+                </ErrorBoundary>
+            );
+            expect(subscribe).toHaveBeenCalledTimes(1);
+
+            control.shouldThrow = false;
+            act(() => {
+                triggerReset();
+            });
+
+            expect(screen.getByText("Recovered")).toBeTruthy();
+            expect(unsubscribe).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+
+        test("仅在错误状态下监听", () => {
+            const spy = suppressConsoleError();
+            const subscribe = mock(() => () => {});
+
+            render(
+                <ErrorBoundary fallback={<span>Error state</span>} resetOn={subscribe}>
+                    <NormalComponent />
+                </ErrorBoundary>
+            );
+
+            expect(subscribe).not.toHaveBeenCalled();
+            spy.mockRestore();
+        });
+
+        test("再次出错时不重复监听，卸载时取消监听", () => {
+            const spy = suppressConsoleError();
+            const unsubscribe = mock(() => {});
+            let triggerReset = () => {};
+            const subscribe = mock((reset: () => void) => {
+                triggerReset = reset;
+                return unsubscribe;
+            });
+            control.shouldThrow = true;
+
+            const { unmount } = render(
+                <ErrorBoundary fallback={<span>Error state</span>} resetOn={subscribe}>
+                    <Flaky />
+                </ErrorBoundary>
+            );
+
+            // 重置后仍然出错
+            act(() => {
+                triggerReset();
+            });
+            expect(screen.getByText("Error state")).toBeTruthy();
+            expect(subscribe).toHaveBeenCalledTimes(1);
+            expect(unsubscribe).not.toHaveBeenCalled();
+
+            unmount();
+            expect(unsubscribe).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+    });
+
+    describe("useErrorBoundary", () => {
+        test("事件处理函数中的错误显示 fallback", async () => {
+            const spy = suppressConsoleError();
+            const onError = mock(() => {});
+
+            function SaveButton() {
+                const { showBoundary } = useErrorBoundary();
+                return (
+                    <button type="button" onClick={() => showBoundary(new Error("Save failed"))}>
+                        Save
+                    </button>
+                );
+            }
+
+            render(
+                <ErrorBoundary fallback={(error) => <span>Error: {error.message}</span>} onError={onError}>
+                    <SaveButton />
+                </ErrorBoundary>
+            );
+
+            await userEvent.click(screen.getByText("Save"));
+
+            expect(screen.getByText("Error: Save failed")).toBeTruthy();
+            expect(onError).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+
+        test("Promise 中的错误显示 fallback", async () => {
+            const spy = suppressConsoleError();
+
+            function Loader() {
+                const { showBoundary } = useErrorBoundary();
+                useEffect(() => {
+                    Promise.reject(new Error("Load failed")).catch(showBoundary);
+                }, [showBoundary]);
+                return <span>Loading</span>;
+            }
+
+            render(
+                <ErrorBoundary fallback={(error) => <span>Error: {error.message}</span>}>
+                    <Loader />
+                </ErrorBoundary>
+            );
+
+            await waitFor(() => {
+                expect(screen.getByText("Error: Load failed")).toBeTruthy();
+            });
+            spy.mockRestore();
+        });
+
+        test("resetBoundary 重置最近的错误边界", async () => {
+            const spy = suppressConsoleError();
+            let shouldThrow = true;
+
+            function Fallback() {
+                const { resetBoundary } = useErrorBoundary();
+                return (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            shouldThrow = false;
+                            resetBoundary();
+                        }}
+                    >
+                        Try again
+                    </button>
+                );
+            }
+
+            function Content() {
+                if (shouldThrow) {
+                    throw new Error("Render error");
+                }
+                return <span>Content</span>;
+            }
+
+            render(
+                <ErrorBoundary fallback={<Fallback />}>
+                    <Content />
+                </ErrorBoundary>
+            );
+
+            await userEvent.click(screen.getByText("Try again"));
+
+            expect(screen.getByText("Content")).toBeTruthy();
+            spy.mockRestore();
+        });
+
+        test("只触发最近的错误边界", async () => {
+            const spy = suppressConsoleError();
+
+            function Trigger() {
+                const { showBoundary } = useErrorBoundary();
+                return (
+                    <button type="button" onClick={() => showBoundary(new Error("Inner"))}>
+                        Trigger
+                    </button>
+                );
+            }
+
+            render(
+                <ErrorBoundary fallback={<span>Outer fallback</span>}>
+                    <ErrorBoundary fallback={<span>Inner fallback</span>}>
+                        <Trigger />
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            );
+
+            await userEvent.click(screen.getByText("Trigger"));
+
+            expect(screen.getByText("Inner fallback")).toBeTruthy();
+            expect(screen.queryByText("Outer fallback")).toBeNull();
+            spy.mockRestore();
+        });
+    });
+
+    describe("autoRetry", () => {
+        // 由外部控制是否抛出错误
+        const control = { shouldThrow: true };
+
+        function Flaky(): ReactNode {
+            if (control.shouldThrow) {
+                throw new Error("Flaky error");
+            }
+            return <span>Recovered</span>;
+        }
+
+        const renderRetryInfo = (
+            _error: Error,
+            reset: () => void,
+            { attempt, maxAttempts, exhausted }: ErrorBoundaryRetryInfo
+        ) => (
+            <div>
+                <span>
+                    Attempt {attempt}/{maxAttempts}
+                </span>
+                {exhausted && <span>Exhausted</span>}
+                <button type="button" onClick={reset}>
+                    Reset
+                </button>
+            </div>
+        );
+
+        test("延迟后自动重置", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                render(
+                    <ErrorBoundary fallback={renderRetryInfo} autoRetry={{ delay: 100 }}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+
+                expect(screen.getByText("Attempt 0/3")).toBeTruthy();
+
+                control.shouldThrow = false;
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+
+                expect(screen.getByText("Recovered")).toBeTruthy();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+
+        test("指数退避并在达到上限后停止重试", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                render(
+                    <ErrorBoundary fallback={renderRetryInfo} autoRetry={{ maxAttempts: 2, delay: 100 }}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                expect(screen.getByText("Attempt 1/2")).toBeTruthy();
+
+                // 第二次重试延迟翻倍
+                act(() => {
+                    jest.advanceTimersByTime(199);
+                });
+                expect(screen.getByText("Attempt 1/2")).toBeTruthy();
+
+                act(() => {
+                    jest.advanceTimersByTime(1);
+                });
+                expect(screen.getByText("Attempt 2/2")).toBeTruthy();
+                expect(screen.getByText("Exhausted")).toBeTruthy();
+
+                control.shouldThrow = false;
+                act(() => {
+                    jest.advanceTimersByTime(10000);
+                });
+                expect(screen.queryByText("Recovered")).toBeNull();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+
+        test("fixed 退避使用相同的延迟", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                render(
+                    <ErrorBoundary fallback={renderRetryInfo} autoRetry={{ delay: 100, backoff: "fixed" }}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                expect(screen.getByText("Attempt 2/3")).toBeTruthy();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+
+        test("手动 reset 后重新计算重试次数", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                render(
+                    <ErrorBoundary fallback={renderRetryInfo} autoRetry={{ maxAttempts: 1, delay: 100 }}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                expect(screen.getByText("Exhausted")).toBeTruthy();
+
+                act(() => {
+                    screen.getByText("Reset").click();
+                });
+                expect(screen.getByText("Attempt 0/1")).toBeTruthy();
+                expect(screen.queryByText("Exhausted")).toBeNull();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+
+        test("重试成功并保持无错误后重新计算重试次数", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                const renderBoundary = () => (
+                    <ErrorBoundary fallback={renderRetryInfo} autoRetry={{ maxAttempts: 1, delay: 100 }}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+                const { rerender } = render(renderBoundary());
+
+                control.shouldThrow = false;
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                expect(screen.getByText("Recovered")).toBeTruthy();
+
+                // 保持 delay 毫秒无错误后重置
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+
+                control.shouldThrow = true;
+                rerender(renderBoundary());
+                expect(screen.getByText("Attempt 0/1")).toBeTruthy();
+                expect(screen.queryByText("Exhausted")).toBeNull();
+
+                control.shouldThrow = false;
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                expect(screen.getByText("Recovered")).toBeTruthy();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+
+        test("恢复后立即再次出错视为连续失败", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                const renderBoundary = () => (
+                    <ErrorBoundary fallback={renderRetryInfo} autoRetry={{ maxAttempts: 1, delay: 100 }}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+                const { rerender } = render(renderBoundary());
+
+                control.shouldThrow = false;
+                act(() => {
+                    jest.advanceTimersByTime(100);
+                });
+                expect(screen.getByText("Recovered")).toBeTruthy();
+
+                control.shouldThrow = true;
+                rerender(renderBoundary());
+                expect(screen.getByText("Attempt 1/1")).toBeTruthy();
+                expect(screen.getByText("Exhausted")).toBeTruthy();
+
+                // 不会因为恢复计时器而重置
+                act(() => {
+                    jest.advanceTimersByTime(1000);
+                });
+                expect(screen.getByText("Exhausted")).toBeTruthy();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+
+        test("未启用时不自动重置", () => {
+            jest.useFakeTimers();
+            const spy = suppressConsoleError();
+            control.shouldThrow = true;
+            try {
+                render(
+                    <ErrorBoundary fallback={renderRetryInfo}>
+                        <Flaky />
+                    </ErrorBoundary>
+                );
+
+                expect(screen.getByText("Attempt 0/0")).toBeTruthy();
+                expect(screen.getByText("Exhausted")).toBeTruthy();
+
+                control.shouldThrow = false;
+                act(() => {
+                    jest.advanceTimersByTime(10000);
+                });
+                expect(screen.queryByText("Recovered")).toBeNull();
+            } finally {
+                spy.mockRestore();
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe("withErrorBoundary", () => {
+        test("转发 props 并在出错时显示 fallback", () => {
+            const spy = suppressConsoleError();
+
+            function Greeting({ name }: { name: string }): ReactNode {
+                if (!name) {
+                    throw new Error("Missing name");
+                }
+                return <span>Hello {name}</span>;
+            }
+
+            const SafeGreeting = withErrorBoundary(Greeting, { fallback: <span>Greeting error</span> });
+
+            const { rerender } = render(<SafeGreeting name="Alice" />);
+            expect(screen.getByText("Hello Alice")).toBeTruthy();
+
+            rerender(<SafeGreeting name="" />);
+            expect(screen.getByText("Greeting error")).toBeTruthy();
+            spy.mockRestore();
+        });
+
+        test("转发 ref", () => {
+            const Input = forwardRef<HTMLInputElement, { label: string }>(({ label }, ref) => (
+                <input ref={ref} aria-label={label} />
+            ));
+            const SafeInput = withErrorBoundary(Input, { fallback: null });
+            const ref = createRef<HTMLInputElement>();
+
+            render(<SafeInput label="Name" ref={ref} />);
+
+            expect(ref.current).toBe(screen.getByLabelText("Name") as HTMLInputElement);
+        });
+
+        test("类组件转发实例 ref", () => {
+            class Counter extends Component<{ initial: number }> {
+                value = this.props.initial;
+
+                render(): ReactNode {
+                    return <span>{this.value}</span>;
+                }
+            }
+            const SafeCounter = withErrorBoundary<{ initial: number }, Counter>(Counter, { fallback: null });
+            const ref = createRef<Counter>();
+
+            render(<SafeCounter initial={3} ref={ref} />);
+
+            expect(ref.current).toBeInstanceOf(Counter);
+            expect(ref.current?.value).toBe(3);
+        });
+
+        test("传递错误边界的 props", () => {
+            const spy = suppressConsoleError();
+            const onError = mock(() => {});
+            const SafeThrow = withErrorBoundary(ThrowError, {
+                fallback: (error) => <span>Caught: {error.message}</span>,
+                onError,
+            });
+
+            render(<SafeThrow message="Wrapped error" />);
+
+            expect(screen.getByText("Caught: Wrapped error")).toBeTruthy();
+            expect(onError).toHaveBeenCalledTimes(1);
+            spy.mockRestore();
+        });
+
+        test("设置 displayName", () => {
+            function Chart(): ReactNode {
+                return null;
+            }
+            const Named = forwardRef<HTMLDivElement>((_props, _ref) => null);
+            Named.displayName = "Named";
+
+            expect(withErrorBoundary(Chart, { fallback: null }).displayName).toBe("withErrorBoundary(Chart)");
+            expect(withErrorBoundary(Named, { fallback: null }).displayName).toBe("withErrorBoundary(Named)");
+        });
+    });
+
     describe("嵌套错误边界", () => {
         test("内层错误边界捕获错误", () => {
             const spy = suppressConsoleError();
@@ -1,18 +1,142 @@
-import { Component, type ErrorInfo, type ReactNode } from "react";
+import {
+    Component,
+    type ComponentType,
+    createContext,
+    createElement,
+    type ErrorInfo,
+    type ForwardRefExoticComponent,
+    forwardRef,
+    type PropsWithoutRef,
+    type ReactNode,
+    type RefAttributes,
+    useCallback,
+    useContext,
+    useMemo,
+    useState,
+} from "react";
+import type { ErrorReporter } from "./ErrorReporter";
+
+/** Automatic retry options | 自动重试选项 */
+export interface ErrorBoundaryRetryOptions {
+    /** Maximum number of consecutive automatic retries, the count resets once a retry stays error-free for delay (default: 3) | 最大连续自动重试次数，重试后保持 delay 毫秒无错误时重新计数（默认：3） */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 1000) | 第一次重试前的延迟毫秒数（默认：1000） */
+    delay?: number;
+    /** Backoff strategy, "exponential" doubles the delay on each retry (default: "exponential") | 退避策略，"exponential" 每次重试延迟翻倍（默认："exponential"） */
+    backoff?: "fixed" | "exponential";
+}
+
+/** Retry info passed to fallback | 传给 fallback 的重试信息 */
+export interface ErrorBoundaryRetryInfo {
+    /** Number of automatic retries already performed | 已执行的自动重试次数 */
+    attempt: number;
+    /** Maximum number of automatic retries, 0 when autoRetry is disabled | 最大自动重试次数，未启用 autoRetry 时为 0 */
+    maxAttempts: number;
+    /** Whether no more automatic retries will be scheduled | 是否不会再自动重试 */
+    exhausted: boolean;
+}
+
+/** Details passed to onReset | 传给 onReset 的重置信息 */
+export type ErrorBoundaryResetDetails =
+    | { reason: "keys"; prev: unknown[]; next: unknown[] }
+    | { reason: "imperative" | "event"; prev?: undefined; next?: undefined };
+
+/** Global event resetting the boundary, or a function subscribing to one and returning an unsubscribe function | 重置错误边界的全局事件，或订阅事件并返回取消订阅函数的函数 */
+export type ErrorBoundaryResetEvent = "online" | "focus" | "visibilitychange" | ((reset: () => void) => () => void);
 
 export interface ErrorBoundaryProps {
     /** Content to show when error occurs | 发生错误时显示的内容 */
-    fallback: ReactNode | ((error: Error, reset: () => void) => ReactNode);
+    fallback: ReactNode | ((error: Error, reset: () => void, retry: ErrorBoundaryRetryInfo) => ReactNode);
     /** Child components | 子组件 */
     children: ReactNode;
+    /** Name used in reports and boundary paths | 用于错误上报和错误边界路径的名称 */
+    name?: string;
     /** Callback when error occurs | 错误发生时的回调 */
     onError?: (error: Error, errorInfo: ErrorInfo) => void;
     /** Key to reset error boundary, auto-resets when key changes | 用于重置错误边界的 key，当 key 变化时自动重置 */
     resetKey?: unknown;
+    /** Keys to reset error boundary, compared element-wise with Object.is | 用于重置错误边界的 key 数组，逐项使用 Object.is 比较 */
+    resetKeys?: unknown[];
+    /** Called after the boundary is reset by keys, resetOn events or by calling reset, not by autoRetry | 通过 key 变化、resetOn 事件或调用 reset 重置后调用，autoRetry 不会触发 */
+    onReset?: (details: ErrorBoundaryResetDetails) => void;
+    /** Reset on global events, listeners are only attached while showing the fallback | 在全局事件发生时重置，仅在显示 fallback 期间监听 */
+    resetOn?: ErrorBoundaryResetEvent | ErrorBoundaryResetEvent[];
+    /** Only catch errors for which this returns true, others are rethrown to the outer boundary | 仅捕获返回 true 的错误，其他错误重新抛给外层错误边界 */
+    shouldCatch?: (error: Error) => boolean;
+    /** Only catch instances of these error classes, others are rethrown to the outer boundary | 仅捕获这些错误类的实例，其他错误重新抛给外层错误边界 */
+    catch?: Array<abstract new (...args: never[]) => Error>;
+    /** Automatically reset after an error, true uses the default options | 出错后自动重置，true 时使用默认选项 */
+    autoRetry?: boolean | ErrorBoundaryRetryOptions;
 }
 
 interface ErrorBoundaryState {
     error: Error | null;
+    /** Consecutive automatic retries | 连续自动重试的次数 */
+    attempt: number;
+    /** Error handed to the parent boundary | 交给上层错误边界的错误 */
+    escalated: { error: unknown } | null;
+}
+
+/** Normalize autoRetry into full options, undefined when disabled | 将 autoRetry 规范化为完整选项，未启用时为 undefined */
+function getRetryOptions(autoRetry: ErrorBoundaryProps["autoRetry"]): Required<ErrorBoundaryRetryOptions> | undefined {
+    if (!autoRetry) {
+        return undefined;
+    }
+    const { maxAttempts = 3, delay = 1000, backoff = "exponential" } = autoRetry === true ? {} : autoRetry;
+    return { maxAttempts, delay, backoff };
+}
+
+/** Value published by the nearest ErrorBoundary | 最近的 ErrorBoundary 提供的值 */
+interface ErrorBoundaryContextValue {
+    reset: () => void;
+    /** Undefined when there is no boundary | 没有错误边界时为 undefined */
+    escalate?: (error: unknown) => void;
+    /** Names of the named boundaries from the outermost to the nearest one | 从最外层到最近的具名错误边界名称 */
+    path: string[];
+    reporter: ErrorReporter | null;
+}
+
+/** Shared with ErrorReporterProvider, not exported from the package | 与 ErrorReporterProvider 共用，不从包中导出 */
+export const ErrorBoundaryContext = createContext<ErrorBoundaryContextValue>({
+    reset: () => {},
+    path: [],
+    reporter: null,
+});
+
+/** Return value of useErrorBoundary | useErrorBoundary 的返回值 */
+export interface UseErrorBoundaryResult {
+    /** Render the nearest boundary's fallback with the given error | 使用给定的错误渲染最近的错误边界的 fallback */
+    showBoundary: (error: unknown) => void;
+    /** Reset the nearest boundary | 重置最近的错误边界 */
+    resetBoundary: () => void;
+    /** Hand the error to the parent of the nearest boundary, e.g. from a fallback | 将错误交给最近的错误边界的上层，例如在 fallback 中使用 */
+    escalate: (error: unknown) => void;
+    /** Names of the named boundaries from the outermost to the nearest one | 从最外层到最近的具名错误边界名称 */
+    path: string[];
+}
+
+/** Subscribe to a reset event, returns the unsubscribe function | 订阅重置事件，返回取消订阅函数 */
+function subscribeResetEvent(event: ErrorBoundaryResetEvent, reset: () => void): () => void {
+    if (typeof event === "function") {
+        return event(reset);
+    }
+    if (event === "visibilitychange") {
+        // 仅在页面重新可见时重置
+        const listener = () => {
+            if (document.visibilityState === "visible") {
+                reset();
+            }
+        };
+        document.addEventListener("visibilitychange", listener);
+        return () => document.removeEventListener("visibilitychange", listener);
+    }
+    window.addEventListener(event, reset);
+    return () => window.removeEventListener(event, reset);
+}
+
+/** Check whether two key arrays differ element-wise | 逐项比较两个 key 数组是否不同 */
+function haveKeysChanged(prev: unknown[] = [], next: unknown[] = []): boolean {
+    return prev.length !== next.length || prev.some((key, index) => !Object.is(key, next[index]));
 }
 
 /**
@@ -46,6 +170,52 @@ interface ErrorBoundaryState {
  * </ErrorBoundary>
  *
  * @example
+ * // Named boundaries, a fallback can escalate errors it can't handle | 具名错误边界，fallback 可以将无法处理的错误交给上层
+ * function ChartFallback() {
+ *   const { escalate } = useErrorBoundary();
+ *   return <button onClick={() => escalate(new Error("Chart unavailable"))}>Give up</button>;
+ * }
+ *
+ * <ErrorBoundary name="Dashboard" fallback={<DashboardError />}>
+ *   <ErrorBoundary name="Chart" fallback={<ChartFallback />}>
+ *     <Chart />
+ *   </ErrorBoundary>
+ * </ErrorBoundary>
+ *
+ * @example
+ * // Recover when the network comes back or the tab regains focus | 网络恢复或页面重新获得焦点时恢复
+ * <ErrorBoundary fallback={<OfflineNotice />} resetOn={["online", "focus"]}>
+ *   <Feed />
+ * </ErrorBoundary>
+ *
+ * @example
+ * // Reset when any of the keys changes | 任一 key 变化时重置
+ * <ErrorBoundary
+ *   fallback={<Error />}
+ *   resetKeys={[pathname, filter]}
+ *   onReset={({ reason }) => console.log(`reset by ${reason}`)}
+ * >
+ *   <Results />
+ * </ErrorBoundary>
+ *
+ * @example
+ * // Handle network errors locally, let others reach the app-level boundary | 在本地处理网络错误，其他错误交给应用级错误边界
+ * <ErrorBoundary fallback={<OfflineNotice />} catch={[NetworkError]}>
+ *   <Feed />
+ * </ErrorBoundary>
+ *
+ * @example
+ * // Retry automatically with exponential backoff | 指数退避自动重试
+ * <ErrorBoundary
+ *   autoRetry={{ maxAttempts: 3, delay: 500 }}
+ *   fallback={(error, reset, { attempt, exhausted }) =>
+ *     exhausted ? <button onClick={reset}>Retry</button> : <p>Retrying ({attempt})...</p>
+ *   }
+ * >
+ *   <FlakyWidget />
+ * </ErrorBoundary>
+ *
+ * @example
  * // With onError for error reporting | 配合 onError 进行错误上报
  * <ErrorBoundary
  *   fallback={<Error />}
@@ -55,41 +225,259 @@ interface ErrorBoundaryState {
  * </ErrorBoundary>
  */
 export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+    static contextType = ErrorBoundaryContext;
+    declare context: ErrorBoundaryContextValue;
+
     constructor(props: ErrorBoundaryProps) {
         super(props);
-        this.state = { error: null };
+        this.state = { error: null, attempt: 0, escalated: null };
     }
 
-    static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    /** Pending automatic retry | 待执行的自动重试 */
+    private retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    /** Resets the retry count once a retry stays error-free | 重试后保持无错误时重置重试次数 */
+    private recoveryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    /** Unsubscribe from resetOn events, set while showing the fallback | 取消订阅 resetOn 事件，显示 fallback 期间存在 */
+    private unsubscribeResetOn: (() => void) | undefined;
+
+    /** Context value for useErrorBoundary and nested boundaries | 提供给 useErrorBoundary 和嵌套错误边界的 context 值 */
+    private contextValue: ErrorBoundaryContextValue | undefined;
+
+    static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
         return { error };
     }
 
     componentDidCatch(error: Error, errorInfo: ErrorInfo): void {
+        // 不处理的错误已重新抛出，由外层错误边界负责
+        if (!this.shouldCatch(error)) {
+            return;
+        }
         this.props.onError?.(error, errorInfo);
+        this.context.reporter?.report({
+            error,
+            componentStack: errorInfo.componentStack ?? undefined,
+            boundary: this.props.name,
+            path: this.getContextValue().path,
+            timestamp: Date.now(),
+        });
+        this.subscribeResetOn();
+        this.scheduleRetry();
     }
 
-    componentDidUpdate(prevProps: ErrorBoundaryProps): void {
+    componentWillUnmount(): void {
+        clearTimeout(this.retryTimer);
+        clearTimeout(this.recoveryTimer);
+        this.unsubscribeResetOn?.();
+    }
+
+    componentDidUpdate(prevProps: ErrorBoundaryProps, prevState: ErrorBoundaryState): void {
+        if (!this.state.error) {
+            // 恢复后不再监听 resetOn 事件
+            this.unsubscribeResetOn?.();
+            this.unsubscribeResetOn = undefined;
+            if (prevState.error && this.state.attempt > 0) {
+                this.scheduleRecovery();
+            }
+            return;
+        }
+        // 本次更新中才捕获的错误可能正是 key 变化导致的，不能立即重置
+        if (!prevState.error) {
+            return;
+        }
+        const { resetKey, resetKeys } = this.props;
+        // 当 resetKeys 中任一项变化时，重置错误状态
+        if (haveKeysChanged(prevProps.resetKeys, resetKeys)) {
+            this.resetWith({ reason: "keys", prev: prevProps.resetKeys ?? [], next: resetKeys ?? [] });
+            return;
+        }
         // 当 resetKey 变化时，重置错误状态
-        if (this.state.error && prevProps.resetKey !== this.props.resetKey) {
-            this.reset();
+        if (prevProps.resetKey !== resetKey) {
+            this.resetWith({ reason: "keys", prev: [prevProps.resetKey], next: [resetKey] });
         }
     }
 
     reset = (): void => {
-        this.setState({ error: null });
+        this.resetWith({ reason: "imperative" });
     };
 
+    /** Hand the error to the parent boundary | 将错误交给上层错误边界 */
+    escalate = (error: unknown): void => {
+        clearTimeout(this.retryTimer);
+        this.setState({ escalated: { error } });
+    };
+
+    private resetWith(details: ErrorBoundaryResetDetails): void {
+        clearTimeout(this.retryTimer);
+        clearTimeout(this.recoveryTimer);
+        // 手动重置后重新计算自动重试次数
+        this.setState({ error: null, attempt: 0, escalated: null });
+        this.props.onReset?.(details);
+    }
+
+    private subscribeResetOn(): void {
+        const { resetOn } = this.props;
+        // 自动重试再次出错时已经在监听
+        if (!resetOn || this.unsubscribeResetOn) {
+            return;
+        }
+        const reset = () => {
+            if (this.state.error) {
+                this.resetWith({ reason: "event" });
+            }
+        };
+        const unsubscribes = (Array.isArray(resetOn) ? resetOn : [resetOn]).map((event) =>
+            subscribeResetEvent(event, reset)
+        );
+        this.unsubscribeResetOn = () => {
+            for (const unsubscribe of unsubscribes) {
+                unsubscribe();
+            }
+        };
+    }
+
+    private getContextValue(): ErrorBoundaryContextValue {
+        const { path: parentPath, reporter } = this.context;
+        const { name } = this.props;
+        const path = name === undefined ? parentPath : [...parentPath, name];
+        // 内容不变时复用同一个对象，避免 context 消费者重复渲染
+        const cached = this.contextValue;
+        if (cached && cached.reporter === reporter && !haveKeysChanged(cached.path, path)) {
+            return cached;
+        }
+        this.contextValue = { reset: this.reset, escalate: this.escalate, path, reporter };
+        return this.contextValue;
+    }
+
+    private shouldCatch(error: Error): boolean {
+        const { shouldCatch, catch: catchTypes } = this.props;
+        if (catchTypes && !catchTypes.some((type) => error instanceof type)) {
+            return false;
+        }
+        return shouldCatch ? shouldCatch(error) : true;
+    }
+
+    /** Only consecutive failures count towards maxAttempts | 只有连续的失败计入 maxAttempts */
+    private scheduleRecovery(): void {
+        const delay = getRetryOptions(this.props.autoRetry)?.delay ?? 0;
+        clearTimeout(this.recoveryTimer);
+        // 重试成功后保持 delay 毫秒无错误才重置，避免 effect 中抛出的错误无限重试
+        this.recoveryTimer = setTimeout(() => {
+            this.setState({ attempt: 0 });
+        }, delay);
+    }
+
+    private scheduleRetry(): void {
+        // 恢复期间再次出错，视为连续失败
+        clearTimeout(this.recoveryTimer);
+        const options = getRetryOptions(this.props.autoRetry);
+        const { attempt } = this.state;
+        if (!options || attempt >= options.maxAttempts) {
+            return;
+        }
+        const delay = options.backoff === "exponential" ? options.delay * 2 ** attempt : options.delay;
+        clearTimeout(this.retryTimer);
+        this.retryTimer = setTimeout(() => {
+            this.setState({ error: null, attempt: attempt + 1 });
+        }, delay);
+    }
+
     render(): ReactNode {
-        const { error } = this.state;
-        const { fallback, children } = this.props;
+        const { error, attempt, escalated } = this.state;
+        const { fallback, children, autoRetry } = this.props;
+
+        // 错误边界自身渲染时抛出的错误由上层错误边界捕获
+        if (escalated) {
+            throw escalated.error;
+        }
 
+        let content = children;
         if (error) {
+            // 不匹配的错误继续向外层错误边界冒泡
+            if (!this.shouldCatch(error)) {
+                throw error;
+            }
             if (typeof fallback === "function") {
-                return fallback(error, this.reset);
+                const maxAttempts = getRetryOptions(autoRetry)?.maxAttempts ?? 0;
+                content = fallback(error, this.reset, { attempt, maxAttempts, exhausted: attempt >= maxAttempts });
+            } else {
+                content = fallback;
             }
-            return fallback;
         }
 
-        return children;
+        return <ErrorBoundaryContext.Provider value={this.getContextValue()}>{content}</ErrorBoundaryContext.Provider>;
     }
 }
+
+/**
+ * Surface errors from effects, event handlers and promises to the nearest ErrorBoundary
+ *
+ * 将 effect、事件处理函数和 Promise 中的错误交给最近的 ErrorBoundary 处理
+ *
+ * @example
+ * function SaveButton() {
+ *   const { showBoundary } = useErrorBoundary();
+ *   return <button onClick={() => save().catch(showBoundary)}>Save</button>;
+ * }
+ */
+export function useErrorBoundary(): UseErrorBoundaryResult {
+    const context = useContext(ErrorBoundaryContext);
+    const [state, setState] = useState<{ error: unknown } | null>(null);
+
+    const showBoundary = useCallback((error: unknown) => {
+        setState({ error });
+    }, []);
+
+    const resetBoundary = useCallback(() => {
+        context.reset();
+    }, [context]);
+
+    const escalate = useCallback(
+        (error: unknown) => {
+            // 没有错误边界时直接抛出，由 React 按未捕获的错误处理
+            if (context.escalate) {
+                context.escalate(error);
+            } else {
+                showBoundary(error);
+            }
+        },
+        [context, showBoundary]
+    );
+
+    const result = useMemo(
+        () => ({ showBoundary, resetBoundary, escalate, path: context.path }),
+        [showBoundary, resetBoundary, escalate, context.path]
+    );
+
+    // 在渲染期间抛出，交给错误边界按渲染错误处理（onError、autoRetry 等照常生效）
+    if (state) {
+        throw state.error;
+    }
+
+    return result;
+}
+
+/**
+ * Wrap a component in an ErrorBoundary, forwarding props and ref
+ *
+ * 使用 ErrorBoundary 包裹组件，并转发 props 和 ref
+ *
+ * @example
+ * const SafeChart = withErrorBoundary(Chart, { fallback: <ChartError /> });
+ * <SafeChart data={data} ref={chartRef} />
+ *
+ * @example
+ * // Pass the instance type explicitly for class components | 类组件需要显式传入实例类型
+ * const SafeEditor = withErrorBoundary<EditorProps, Editor>(Editor, { fallback: <EditorError /> });
+ */
+export function withErrorBoundary<P extends object, R = P extends RefAttributes<infer I> ? I : unknown>(
+    WrappedComponent: ComponentType<P>,
+    boundaryProps: Omit<ErrorBoundaryProps, "children">
+): ForwardRefExoticComponent<PropsWithoutRef<P> & RefAttributes<R>> {
+    const Wrapped = forwardRef<R, P>((props, ref) => (
+        <ErrorBoundary {...boundaryProps}>{createElement(WrappedComponent, { ...props, ref } as P)}</ErrorBoundary>
+    ));
+    Wrapped.displayName = `withErrorBoundary(${WrappedComponent.displayName || WrappedComponent.name || "Component"})`;
+    return Wrapped;
+}
@@ -0,0 +1,214 @@
+import { afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { ReactNode } from "react";
+import { ErrorBoundary, useErrorBoundary } from "./ErrorBoundary";
+import { ErrorReporterProvider, MemoryErrorReporter } from "./ErrorReporter";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+});
+
+// 抑制 React 错误边界的 console.error 输出
+const suppressConsoleError = () => spyOn(console, "error").mockImplementation(() => {});
+
+function ThrowError({ message }: { message: string }): ReactNode {
+    throw new Error(message);
+}
+
+describe("ErrorReporterProvider 组件", () => {
+    test("错误边界捕获的错误自动上报", () => {
+        const spy = suppressConsoleError();
+        const reporter = new MemoryErrorReporter();
+
+        render(
+            <ErrorReporterProvider reporter={reporter}>
+                <ErrorBoundary fallback={<span>Error</span>}>
+                    <ThrowError message="Boom" />
+                </ErrorBoundary>
+            </ErrorReporterProvider>
+        );
+
+        expect(reporter.reports).toHaveLength(1);
+        const [report] = reporter.reports;
+        expect(report.error.message).toBe("Boom");
+        expect(report.componentStack).toContain("ThrowError");
+        expect(typeof report.timestamp).toBe("number");
+        spy.mockRestore();
+    });
+
+    test("上报包含错误边界名称和路径", () => {
+        const spy = suppressConsoleError();
+        const reporter = new MemoryErrorReporter();
+
+        render(
+            <ErrorReporterProvider reporter={reporter}>
+                <ErrorBoundary name="App" fallback={<span>App error</span>}>
+                    <ErrorBoundary fallback={<span>Anonymous error</span>}>
+                        <ErrorBoundary name="Chart" fallback={<span>Chart error</span>}>
+                            <ThrowError message="Chart failed" />
+                        </ErrorBoundary>
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            </ErrorReporterProvider>
+        );
+
+        expect(reporter.reports[0]).toMatchObject({ boundary: "Chart", path: ["App", "Chart"] });
+        spy.mockRestore();
+    });
+
+    test("escalate 的错误由上层错误边界上报", async () => {
+        const spy = suppressConsoleError();
+        const reporter = new MemoryErrorReporter();
+
+        function ChartFallback() {
+            const { escalate } = useErrorBoundary();
+            return (
+                <button type="button" onClick={() => escalate(new Error("Chart unavailable"))}>
+                    Give up
+                </button>
+            );
+        }
+
+        render(
+            <ErrorReporterProvider reporter={reporter}>
+                <ErrorBoundary name="App" fallback={<span>App error</span>}>
+                    <ErrorBoundary name="Dashboard" fallback={<span>Dashboard error</span>}>
+                        <ErrorBoundary name="Chart" fallback={<ChartFallback />}>
+                            <ThrowError message="Chart failed" />
+                        </ErrorBoundary>
+                    </ErrorBoundary>
+                </ErrorBoundary>
+            </ErrorReporterProvider>
+        );
+
+        await userEvent.click(screen.getByText("Give up"));
+
+        expect(screen.getByText("Dashboard error")).toBeTruthy();
+        expect(reporter.reports.map(({ error, path }) => [error.message, path.join(" > ")])).toEqual([
+            ["Chart failed", "App > Dashboard > Chart"],
+            ["Chart unavailable", "App > Dashboard"],
+        ]);
+        spy.mockRestore();
+    });
+
+    test("同时调用 onError", () => {
+        const spy = suppressConsoleError();
+        const reporter = new MemoryErrorReporter();
+        const onError = jest.fn();
+
+        render(
+            <ErrorReporterProvider reporter={reporter}>
+                <ErrorBoundary fallback={<span>Error</span>} onError={onError}>
+                    <ThrowError message="Boom" />
+                </ErrorBoundary>
+            </ErrorReporterProvider>
+        );
+
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(reporter.reports).toHaveLength(1);
+        spy.mockRestore();
+    });
+
+    test("时间窗口内相同的错误只上报一次", () => {
+        const spy = suppressConsoleError();
+        const now = spyOn(Date, "now").mockReturnValue(1000);
+        const reporter = new MemoryErrorReporter();
+        const renderError = () => (
+            <ErrorReporterProvider reporter={reporter} dedupeWindow={1000}>
+                <ErrorBoundary fallback={<span>Error</span>}>
+                    <ThrowError message="Same" />
+                </ErrorBoundary>
+                <ErrorBoundary fallback={<span>Error</span>}>
+                    <ThrowError message="Same" />
+                </ErrorBoundary>
+            </ErrorReporterProvider>
+        );
+
+        try {
+            const { unmount } = render(renderError());
+            expect(reporter.reports).toHaveLength(1);
+            unmount();
+
+            // 窗口结束后再次上报
+            now.mockReturnValue(2000);
+            render(renderError());
+            expect(reporter.reports).toHaveLength(2);
+        } finally {
+            now.mockRestore();
+            spy.mockRestore();
+        }
+    });
+
+    test("父组件重新渲染传入新的内联 reporter 时仍会去重", () => {
+        const spy = suppressConsoleError();
+        const messages: string[] = [];
+        const renderWith = (showSecond: boolean) => (
+            <ErrorReporterProvider reporter={{ report: (report) => messages.push(report.error.message) }}>
+                <ErrorBoundary fallback={<span>Error</span>}>
+                    <ThrowError message="Same" />
+                </ErrorBoundary>
+                {showSecond && (
+                    <ErrorBoundary fallback={<span>Error</span>}>
+                        <ThrowError message="Same" />
+                    </ErrorBoundary>
+                )}
+            </ErrorReporterProvider>
+        );
+
+        const { rerender } = render(renderWith(false));
+        expect(messages).toEqual(["Same"]);
+
+        rerender(renderWith(true));
+        expect(messages).toEqual(["Same"]);
+        spy.mockRestore();
+    });
+
+    test("不同的错误分别上报", () => {
+        const spy = suppressConsoleError();
+        const reporter = new MemoryErrorReporter();
+
+        render(
+            <ErrorReporterProvider reporter={reporter}>
+                <ErrorBoundary fallback={<span>Error</span>}>
+                    <ThrowError message="First" />
+                </ErrorBoundary>
+                <ErrorBoundary fallback={<span>Error</span>}>
+                    <ThrowError message="Second" />
+                </ErrorBoundary>
+            </ErrorReporterProvider>
+        );
+
+        expect(reporter.reports.map((report) => report.error.message)).toEqual(["First", "Second"]);
+        spy.mockRestore();
+    });
+
+    test("没有 provider 时不上报", () => {
+        const spy = suppressConsoleError();
+
+        render(
+            <ErrorBoundary fallback={<span>Error</span>}>
+                <ThrowError message="Boom" />
+            </ErrorBoundary>
+        );
+
+        expect(screen.getByText("Error")).toBeTruthy();
+        spy.mockRestore();
+    });
+
+    test("MemoryErrorReporter.clear 清空上报", () => {
+        const reporter = new MemoryErrorReporter();
+        reporter.report({
+            error: new Error("Boom"),
+            componentStack: undefined,
+            boundary: undefined,
+            path: [],
+            timestamp: 0,
+        });
+
+        reporter.clear();
+
+        expect(reporter.reports).toHaveLength(0);
+    });
+});
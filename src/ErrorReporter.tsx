@@ -0,0 +1,108 @@
+import { type ReactNode, useContext, useMemo, useRef } from "react";
+import { ErrorBoundaryContext } from "./ErrorBoundary";
+
+/** Error caught by an ErrorBoundary | ErrorBoundary 捕获的错误 */
+export interface ErrorReport {
+    /** Caught error | 捕获的错误 */
+    error: Error;
+    /** React component stack | React 组件栈 */
+    componentStack: string | undefined;
+    /** Name of the boundary that caught the error | 捕获错误的错误边界名称 */
+    boundary: string | undefined;
+    /** Names of the named boundaries from the outermost to the current one | 从最外层到当前的具名错误边界名称 */
+    path: string[];
+    /** Time the error was caught | 捕获错误的时间 */
+    timestamp: number;
+}
+
+/** Receives errors caught by ErrorBoundary | 接收 ErrorBoundary 捕获的错误 */
+export interface ErrorReporter {
+    report: (report: ErrorReport) => void;
+}
+
+/**
+ * Reporter keeping reports in memory, useful for tests
+ *
+ * 将错误保存在内存中的上报器，适用于测试
+ *
+ * @example
+ * const reporter = new MemoryErrorReporter();
+ * render(<ErrorReporterProvider reporter={reporter}><App /></ErrorReporterProvider>);
+ * expect(reporter.reports).toHaveLength(1);
+ */
+export class MemoryErrorReporter implements ErrorReporter {
+    /** Received reports | 已收到的错误 */
+    readonly reports: ErrorReport[] = [];
+
+    report = (report: ErrorReport): void => {
+        this.reports.push(report);
+    };
+
+    /** Remove all reports | 清空已收到的错误 */
+    clear(): void {
+        this.reports.length = 0;
+    }
+}
+
+export interface ErrorReporterProviderProps {
+    /** Reporter called by every ErrorBoundary inside | 内部所有 ErrorBoundary 都会调用的上报器 */
+    reporter: ErrorReporter;
+    /** Identical errors within this window in milliseconds are reported once (default: 5000) | 此毫秒数内相同的错误只上报一次（默认：5000） */
+    dedupeWindow?: number;
+    /** Child components | 子组件 */
+    children: ReactNode;
+}
+
+/** Key identifying identical errors | 用于识别相同错误的 key */
+function getReportKey({ error, componentStack }: ErrorReport): string {
+    return `${error?.name}\n${error?.message}\n${componentStack ?? ""}`;
+}
+
+/**
+ * Report errors caught by every ErrorBoundary inside
+ *
+ * 上报内部所有 ErrorBoundary 捕获的错误
+ *
+ * @example
+ * <ErrorReporterProvider reporter={{ report: ({ error, path }) => Sentry.captureException(error, { tags: { boundary: path.join(" > ") } }) }}>
+ *   <App />
+ * </ErrorReporterProvider>
+ */
+export function ErrorReporterProvider({
+    reporter,
+    dedupeWindow = 5000,
+    children,
+}: ErrorReporterProviderProps): ReactNode {
+    const parent = useContext(ErrorBoundaryContext);
+    // 每个 key 最近一次上报的时间，reporter 变化时保留，内联的 reporter 也能去重
+    const reportedAtRef = useRef(new Map<string, number>());
+    // 始终使用最新的 reporter 和去重时间窗口
+    const optionsRef = useRef({ reporter, dedupeWindow });
+    optionsRef.current = { reporter, dedupeWindow };
+
+    const value = useMemo(() => {
+        const reportedAt = reportedAtRef.current;
+
+        const dedupedReporter: ErrorReporter = {
+            report: (report) => {
+                const { reporter, dedupeWindow } = optionsRef.current;
+                // 清理已过期的记录
+                for (const [key, time] of reportedAt) {
+                    if (report.timestamp - time >= dedupeWindow) {
+                        reportedAt.delete(key);
+                    }
+                }
+                const key = getReportKey(report);
+                if (reportedAt.has(key)) {
+                    return;
+                }
+                reportedAt.set(key, report.timestamp);
+                reporter.report(report);
+            },
+        };
+
+        return { ...parent, reporter: dedupedReporter };
+    }, [parent]);
+
+    return <ErrorBoundaryContext.Provider value={value}>{children}</ErrorBoundaryContext.Provider>;
+}
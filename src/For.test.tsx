@@ -1,4 +1,5 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, jest, mock, test } from "bun:test";
+import { act, cleanup, render, screen } from "@testing-library/react";
 import { renderToString } from "react-dom/server";
 import { For } from "./For";
 
@@ -558,4 +559,185 @@ describe("For 组件", () => {
             ]);
         });
     });
+
+    describe("chunkSize 分批渲染", () => {
+        afterEach(() => {
+            cleanup();
+            jest.useRealTimers();
+        });
+
+        const items = Array.from({ length: 10 }, (_, i) => `item-${i}`);
+
+        test("先渲染第一批，空闲时渲染后续批次", () => {
+            jest.useFakeTimers();
+            render(
+                <For each={items} chunkSize={4}>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            expect(screen.getByText("item-3")).toBeTruthy();
+            expect(screen.queryByText("item-4")).toBeNull();
+
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("item-7")).toBeTruthy();
+            expect(screen.queryByText("item-8")).toBeNull();
+
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("item-9")).toBeTruthy();
+        });
+
+        test("未完成时显示 loadingMore，完成后调用 onComplete", () => {
+            jest.useFakeTimers();
+            const onComplete = mock(() => {});
+            render(
+                <For each={items} chunkSize={5} loadingMore={<span>Loading more</span>} onComplete={onComplete}>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            expect(screen.getByText("Loading more")).toBeTruthy();
+            expect(onComplete).not.toHaveBeenCalled();
+
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+
+            expect(screen.queryByText("Loading more")).toBeNull();
+            expect(onComplete).toHaveBeenCalledTimes(1);
+        });
+
+        test("第一批已包含所有元素时立即完成", () => {
+            const onComplete = mock(() => {});
+            render(
+                <For each={items} chunkSize={20} loadingMore={<span>Loading more</span>} onComplete={onComplete}>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            expect(screen.getByText("item-9")).toBeTruthy();
+            expect(screen.queryByText("Loading more")).toBeNull();
+            expect(onComplete).toHaveBeenCalledTimes(1);
+        });
+
+        test("loadingMore 渲染在 wrapper 内部", () => {
+            const html = renderToString(
+                <For each={items} chunkSize={2} wrapper={<ul />} loadingMore={<li>Loading more</li>}>
+                    {(item) => <li>{item}</li>}
+                </For>
+            );
+
+            expect(html).toBe("<ul><li>item-0</li><li>item-1</li><li>Loading more</li></ul>");
+        });
+
+        test("倒序时先渲染末尾的元素", () => {
+            const html = renderToString(
+                <For each={items} chunkSize={2} reverse>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            expect(html).toBe("<span>item-9</span><span>item-8</span>");
+        });
+
+        test("数组变化时保留已渲染的数量", () => {
+            jest.useFakeTimers();
+            const renderWith = (list: string[]) => (
+                <For each={list} chunkSize={4}>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            const { rerender } = render(renderWith(items));
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("item-7")).toBeTruthy();
+
+            rerender(renderWith(["new", ...items]));
+            expect(screen.getByText("item-6")).toBeTruthy();
+            expect(screen.queryByText("item-7")).toBeNull();
+
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("item-9")).toBeTruthy();
+        });
+
+        test("chunkSize 小于 1 时每批渲染一个元素", () => {
+            jest.useFakeTimers();
+            render(
+                <For each={items.slice(0, 2)} chunkSize={0} loadingMore={<span>Loading more</span>}>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            expect(screen.getByText("item-0")).toBeTruthy();
+            expect(screen.queryByText("item-1")).toBeNull();
+
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("item-1")).toBeTruthy();
+            expect(screen.queryByText("Loading more")).toBeNull();
+        });
+
+        test("挂载后设置 chunkSize 时分批渲染", () => {
+            jest.useFakeTimers();
+            const renderWith = (chunkSize?: number) => (
+                <For each={items} chunkSize={chunkSize}>
+                    {(item) => <span>{item}</span>}
+                </For>
+            );
+
+            const { rerender } = render(renderWith());
+            expect(screen.getByText("item-9")).toBeTruthy();
+
+            rerender(renderWith(4));
+            expect(screen.getByText("item-3")).toBeTruthy();
+            expect(screen.queryByText("item-4")).toBeNull();
+
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            act(() => {
+                jest.advanceTimersByTime(0);
+            });
+            expect(screen.getByText("item-9")).toBeTruthy();
+        });
+
+        test("未设置 chunkSize 时不使用 hook", () => {
+            // 在组件外直接调用，使用 hook 时会抛出错误
+            const elements = For({ each: items, children: (item) => <span>{item}</span> });
+            expect(elements).toHaveLength(10);
+        });
+
+        test("优先使用 requestIdleCallback", () => {
+            const callbacks: Array<() => void> = [];
+            const globals = globalThis as unknown as Record<string, unknown>;
+            globals.requestIdleCallback = (callback: () => void) => callbacks.push(callback);
+            globals.cancelIdleCallback = () => {};
+
+            try {
+                render(
+                    <For each={items} chunkSize={5}>
+                        {(item) => <span>{item}</span>}
+                    </For>
+                );
+
+                expect(callbacks).toHaveLength(1);
+                act(() => {
+                    callbacks[0]();
+                });
+                expect(screen.getByText("item-9")).toBeTruthy();
+            } finally {
+                delete globals.requestIdleCallback;
+                delete globals.cancelIdleCallback;
+            }
+        });
+    });
 });
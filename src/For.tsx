@@ -1,4 +1,15 @@
-import { cloneElement, Fragment, isValidElement, type Key, type ReactElement, type ReactNode } from "react";
+import * as React from "react";
+import {
+    cloneElement,
+    Fragment,
+    isValidElement,
+    type Key,
+    type ReactElement,
+    type ReactNode,
+    useEffect,
+    useRef,
+    useState,
+} from "react";
 
 export interface ForProps<T> {
     /** Array to iterate over | 要遍历的数组 */
@@ -13,6 +24,32 @@ export interface ForProps<T> {
     wrapper?: ReactElement;
     /** Reverse the rendering order | 倒序渲染 */
     reverse?: boolean;
+    /** Render this many items first, then the rest in batches of the same size during idle time, values below 1 are treated as 1 | 先渲染指定数量的元素，其余元素在空闲时按相同数量分批渲染，小于 1 时按 1 处理 */
+    chunkSize?: number;
+    /** Content rendered after the items while batches are pending | 分批渲染未完成时在元素之后渲染的内容 */
+    loadingMore?: ReactNode;
+    /** Called when all items have been rendered in chunkSize mode | chunkSize 模式下所有元素渲染完成时调用 */
+    onComplete?: () => void;
+}
+
+/** Mark the update as a transition when supported, React 17 has no startTransition | 支持时将更新标记为 transition，React 17 没有 startTransition */
+function startTransition(callback: () => void): void {
+    const { startTransition: reactStartTransition } = React as Partial<typeof React>;
+    if (typeof reactStartTransition === "function") {
+        reactStartTransition(callback);
+    } else {
+        callback();
+    }
+}
+
+/** Run the callback during idle time, returns the cancel function | 在空闲时执行回调，返回取消函数 */
+function scheduleIdle(callback: () => void): () => void {
+    if (typeof requestIdleCallback === "function") {
+        const id = requestIdleCallback(callback);
+        return () => cancelIdleCallback(id);
+    }
+    const id = setTimeout(callback, 0);
+    return () => clearTimeout(id);
 }
 
 /**
@@ -43,18 +80,90 @@ export interface ForProps<T> {
  * <For each={items} wrapper={<ul className="list" />}>
  *   {(item) => <li>{item.name}</li>}
  * </For>
+ *
+ * @example
+ * // Render large arrays in batches without blocking | 分批渲染大数组，避免阻塞
+ * <For each={rows} chunkSize={200} loadingMore={<Spinner />} onComplete={() => console.log("done")}>
+ *   {(row) => <Row data={row} />}
+ * </For>
  */
-export function For<T>({ each, children, keyExtractor, fallback = null, wrapper, reverse }: ForProps<T>): ReactNode {
+export function For<T>(props: ForProps<T>): ReactNode {
+    const { each, fallback = null, wrapper, chunkSize } = props;
+
+    // 分批渲染需要状态，单独放在 ChunkedFor 中，普通列表保持无 hook
+    if (chunkSize !== undefined) {
+        return <ChunkedFor {...props} chunkSize={chunkSize} />;
+    }
+
     if (!each || each.length === 0) {
         return fallback;
     }
 
-    const items = reverse ? [...each].reverse() : each;
-    const elements = items.map((item, i) => {
+    return wrapElements(wrapper, renderItems(props, each, each.length));
+}
+
+/** Render the first limit items in display order | 按显示顺序渲染前 limit 个元素 */
+function renderItems<T>(
+    { children, keyExtractor, reverse }: ForProps<T>,
+    each: T[] | readonly T[],
+    limit: number
+): ReactNode[] {
+    const ordered = reverse ? [...each].reverse() : each;
+    const items = limit >= ordered.length ? ordered : ordered.slice(0, limit);
+    return items.map((item, i) => {
         const originalIndex = reverse ? each.length - 1 - i : i;
         const key = keyExtractor ? keyExtractor(item, originalIndex) : originalIndex;
         return <Fragment key={key}>{children(item, originalIndex, each)}</Fragment>;
     });
+}
 
+/** Put the elements into the wrapper if there is one | 存在包装元素时将元素放入其中 */
+function wrapElements(wrapper: ReactElement | undefined, elements: ReactNode[]): ReactNode {
     return wrapper && isValidElement(wrapper) ? cloneElement(wrapper, {}, elements) : elements;
 }
+
+/** For with chunkSize, renders the items in batches during idle time | 带 chunkSize 的 For，在空闲时分批渲染元素 */
+function ChunkedFor<T>(props: ForProps<T> & { chunkSize: number }): ReactNode {
+    const { each, fallback = null, wrapper, chunkSize, loadingMore = null, onComplete } = props;
+    // 每批至少渲染一个元素，避免 0 或负数导致一直停留在 loadingMore
+    const size = Math.max(1, Math.floor(chunkSize) || 1);
+    const total = each?.length ?? 0;
+    const hasItems = total > 0;
+    // 已渲染的元素数量，只增不减，数组变化时不会重新分批
+    const [limit, setLimit] = useState(size);
+    const isComplete = limit >= total;
+
+    // 始终使用最新的 onComplete
+    const onCompleteRef = useRef(onComplete);
+    onCompleteRef.current = onComplete;
+
+    // 在空闲时渲染下一批
+    // biome-ignore lint/correctness/useExhaustiveDependencies: limit 变化后需要调度下一批
+    useEffect(() => {
+        if (isComplete) {
+            return;
+        }
+        return scheduleIdle(() => {
+            startTransition(() => {
+                setLimit((count) => count + size);
+            });
+        });
+    }, [size, isComplete, limit]);
+
+    useEffect(() => {
+        if (isComplete && hasItems) {
+            onCompleteRef.current?.();
+        }
+    }, [isComplete, hasItems]);
+
+    if (!each || !hasItems) {
+        return fallback;
+    }
+
+    const elements = renderItems(props, each, limit);
+    if (!isComplete) {
+        elements.push(<Fragment key="loading-more">{loadingMore}</Fragment>);
+    }
+
+    return wrapElements(wrapper, elements);
+}
@@ -0,0 +1,271 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { useRef, useState } from "react";
+import { VirtualFor } from "./VirtualFor";
+
+// 每个测试后清理
+afterEach(() => {
+    cleanup();
+});
+
+const rows = Array.from({ length: 10000 }, (_, i) => ({ id: `row-${i}`, label: `Row ${i}` }));
+
+// 替换 ResizeObserver，记录每个实例正在观察的元素
+function mockResizeObserver() {
+    const OriginalResizeObserver = globalThis.ResizeObserver;
+    const observers: Array<{ callback: ResizeObserverCallback; elements: Set<Element> }> = [];
+    globalThis.ResizeObserver = class {
+        private record: { callback: ResizeObserverCallback; elements: Set<Element> };
+        constructor(callback: ResizeObserverCallback) {
+            this.record = { callback, elements: new Set() };
+            observers.push(this.record);
+        }
+        observe(element: Element) {
+            this.record.elements.add(element);
+        }
+        unobserve(element: Element) {
+            this.record.elements.delete(element);
+        }
+        disconnect() {
+            this.record.elements.clear();
+        }
+    } as unknown as typeof ResizeObserver;
+
+    return {
+        observers,
+        restore: () => {
+            globalThis.ResizeObserver = OriginalResizeObserver;
+        },
+    };
+}
+
+// 滚动到指定位置
+function scrollTo(element: HTMLElement, scrollTop: number) {
+    element.scrollTop = scrollTop;
+    fireEvent.scroll(element);
+}
+
+describe("VirtualFor 组件", () => {
+    describe("固定高度", () => {
+        test("只渲染可见范围和 overscan 内的元素", () => {
+            render(
+                <VirtualFor each={rows} itemSize={20} height={100} overscan={2}>
+                    {(row) => <span>{row.label}</span>}
+                </VirtualFor>
+            );
+
+            // 可见 5 个，加上下方 overscan
+            expect(screen.getByText("Row 0")).toBeTruthy();
+            expect(screen.getByText("Row 7")).toBeTruthy();
+            expect(screen.queryByText("Row 8")).toBeNull();
+        });
+
+        test("滚动后渲染新的范围", () => {
+            render(
+                <VirtualFor each={rows} itemSize={20} height={100} overscan={1}>
+                    {(row) => <span>{row.label}</span>}
+                </VirtualFor>
+            );
+
+            // span -> 元素 -> 列表 -> 滚动容器
+            const container = screen.getByText("Row 0").parentElement?.parentElement?.parentElement as HTMLElement;
+            act(() => {
+                scrollTo(container, 10000);
+            });
+
+            expect(screen.queryByText("Row 0")).toBeNull();
+            expect(screen.getByText("Row 499")).toBeTruthy();
+            expect(screen.getByText("Row 500")).toBeTruthy();
+            expect(screen.getByText("Row 506")).toBeTruthy();
+            expect(screen.queryByText("Row 507")).toBeNull();
+        });
+
+        test("列表总高度等于所有元素高度之和", () => {
+            render(
+                <VirtualFor each={rows} itemSize={20} height={100}>
+                    {(row) => <span>{row.label}</span>}
+                </VirtualFor>
+            );
+
+            const item = screen.getByText("Row 1").parentElement as HTMLElement;
+            expect(item.style.top).toBe("20px");
+            expect(item.style.height).toBe("20px");
+            expect((item.parentElement as HTMLElement).style.height).toBe("200000px");
+        });
+
+        test("itemSize 可以是函数", () => {
+            render(
+                <VirtualFor
+                    each={rows.slice(0, 10)}
+                    itemSize={(_row, index) => (index % 2 === 0 ? 10 : 30)}
+                    height={40}
+                >
+                    {(row) => <span>{row.label}</span>}
+                </VirtualFor>
+            );
+
+            const item = screen.getByText("Row 2").parentElement as HTMLElement;
+            expect(item.style.top).toBe("40px");
+            expect((item.parentElement as HTMLElement).style.height).toBe("200px");
+        });
+    });
+
+    describe("与 For 相同的 API", () => {
+        test("children 接收 item、index 和原数组", () => {
+            const items = ["a", "b", "c"];
+            render(
+                <VirtualFor each={items} itemSize={20} height={100}>
+                    {(item, index, array) => (
+                        <span>
+                            {item}-{index}-{array.length}
+                        </span>
+                    )}
+                </VirtualFor>
+            );
+
+            expect(screen.getByText("a-0-3")).toBeTruthy();
+            expect(screen.getByText("c-2-3")).toBeTruthy();
+        });
+
+        test("使用 keyExtractor 保留元素状态", () => {
+            function Counter({ label }: { label: string }) {
+                const [count, setCount] = useState(0);
+                return (
+                    <button type="button" onClick={() => setCount((c) => c + 1)}>
+                        {label}: {count}
+                    </button>
+                );
+            }
+
+            const items = [
+                { id: 1, label: "First" },
+                { id: 2, label: "Second" },
+            ];
+            const renderWith = (list: typeof items) => (
+                <VirtualFor each={list} itemSize={20} height={100} keyExtractor={(item) => item.id}>
+                    {(item) => <Counter label={item.label} />}
+                </VirtualFor>
+            );
+
+            const { rerender } = render(renderWith(items));
+            fireEvent.click(screen.getByText("Second: 0"));
+            rerender(renderWith([items[1], items[0]]));
+
+            expect(screen.getByText("Second: 1")).toBeTruthy();
+            expect((screen.getByText("Second: 1").parentElement as HTMLElement).style.top).toBe("0px");
+        });
+
+        test("空数组时显示 fallback", () => {
+            render(
+                <VirtualFor each={[]} itemSize={20} height={100} fallback={<span>Empty</span>}>
+                    {(item: string) => <span>{item}</span>}
+                </VirtualFor>
+            );
+
+            expect(screen.getByText("Empty")).toBeTruthy();
+        });
+
+        test("null 时显示 fallback", () => {
+            render(
+                <VirtualFor each={null} itemSize={20} height={100} fallback={<span>Empty</span>}>
+                    {(item: string) => <span>{item}</span>}
+                </VirtualFor>
+            );
+
+            expect(screen.getByText("Empty")).toBeTruthy();
+        });
+    });
+
+    describe("外部滚动容器", () => {
+        test("监听 scrollRef 的滚动", () => {
+            function List() {
+                const scrollRef = useRef<HTMLDivElement>(null);
+                return (
+                    <div ref={scrollRef} data-testid="scroller">
+                        <VirtualFor each={rows} itemSize={20} scrollRef={scrollRef} overscan={0}>
+                            {(row) => <span>{row.label}</span>}
+                        </VirtualFor>
+                    </div>
+                );
+            }
+
+            render(<List />);
+            const scroller = screen.getByTestId("scroller");
+            const list = screen.getByText("Row 0").parentElement?.parentElement as HTMLElement;
+            // 不渲染内置容器
+            expect(list.parentElement).toBe(scroller);
+            // 列表位于容器顶部，随滚动上移
+            list.getBoundingClientRect = () => ({ top: -scroller.scrollTop }) as DOMRect;
+
+            act(() => {
+                scrollTo(scroller, 2000);
+            });
+
+            expect(screen.queryByText("Row 0")).toBeNull();
+            expect(screen.getByText("Row 100")).toBeTruthy();
+        });
+    });
+
+    describe("测量高度", () => {
+        test("使用测量到的实际高度", () => {
+            const { observers, restore } = mockResizeObserver();
+
+            try {
+                render(
+                    <VirtualFor each={rows.slice(0, 5)} itemSize={20} height={100} measure>
+                        {(row) => <span>{row.label}</span>}
+                    </VirtualFor>
+                );
+
+                // 第一个元素实际高度为 50
+                const first = screen.getByText("Row 0").parentElement as HTMLElement;
+                first.getBoundingClientRect = () => ({ height: 50 }) as DOMRect;
+                const itemObserver = observers.find((observer) => observer.elements.has(first));
+                act(() => {
+                    itemObserver?.callback(
+                        [{ target: first } as ResizeObserverEntry],
+                        itemObserver as unknown as ResizeObserver
+                    );
+                });
+
+                const second = screen.getByText("Row 1").parentElement as HTMLElement;
+                expect(second.style.top).toBe("50px");
+                expect((second.parentElement as HTMLElement).style.height).toBe("130px");
+                // 测量模式下不固定高度
+                expect(second.style.height).toBe("");
+            } finally {
+                restore();
+            }
+        });
+
+        test("离开可见范围的元素取消观察", () => {
+            const { observers, restore } = mockResizeObserver();
+
+            try {
+                render(
+                    <VirtualFor each={rows} itemSize={20} height={100} overscan={1} measure>
+                        {(row) => <span>{row.label}</span>}
+                    </VirtualFor>
+                );
+
+                const first = screen.getByText("Row 0").parentElement as HTMLElement;
+                const list = first.parentElement as HTMLElement;
+                const itemObserver = observers.find((observer) => observer.elements.has(first));
+                expect(itemObserver?.elements.size).toBe(list.children.length);
+
+                act(() => {
+                    scrollTo(list.parentElement as HTMLElement, 10000);
+                });
+
+                // 只观察当前渲染的元素
+                expect(itemObserver?.elements.has(first)).toBe(false);
+                expect(itemObserver?.elements.size).toBe(list.children.length);
+                for (const element of itemObserver?.elements ?? []) {
+                    expect(element.isConnected).toBe(true);
+                }
+            } finally {
+                restore();
+            }
+        });
+    });
+});
@@ -0,0 +1,266 @@
+import {
+    type CSSProperties,
+    type ReactNode,
+    type RefObject,
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+} from "react";
+import type { ForProps } from "./For";
+
+export interface VirtualForProps<T> extends Pick<ForProps<T>, "each" | "children" | "keyExtractor" | "fallback"> {
+    /** Item size in pixels, or a function returning it, used as the estimate when measure is enabled | 元素高度（像素）或返回高度的函数，启用 measure 时作为预估值 */
+    itemSize: number | ((item: T, index: number) => number);
+    /** Measure rendered items and use their actual size (default: false) | 测量已渲染元素的实际高度（默认：false） */
+    measure?: boolean;
+    /** Number of extra items rendered above and below the visible range (default: 3) | 可见范围上下额外渲染的元素数量（默认：3） */
+    overscan?: number;
+    /** Height of the built-in scroll container, required without scrollRef unless className or style sets it | 内置滚动容器的高度，未提供 scrollRef 时必须设置（或通过 className、style 设置） */
+    height?: number | string;
+    /** External scroll container, no built-in container is rendered when provided | 外部滚动容器，提供时不渲染内置容器 */
+    scrollRef?: RefObject<HTMLElement | null>;
+    /** Class name of the built-in scroll container | 内置滚动容器的 class */
+    className?: string;
+    /** Style of the built-in scroll container | 内置滚动容器的样式 */
+    style?: CSSProperties;
+}
+
+/** Find the index of the item containing the given offset | 查找包含给定偏移量的元素索引 */
+function findIndex(offsets: number[], offset: number): number {
+    let low = 0;
+    let high = offsets.length - 2;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (offsets[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return Math.max(low, 0);
+}
+
+/**
+ * Virtualized list rendering component, only renders the visible items (Web only)
+ *
+ * 虚拟列表渲染组件，只渲染可见范围内的元素（仅 Web）
+ *
+ * @example
+ * // Fixed item size | 固定高度
+ * <VirtualFor each={rows} itemSize={32} height={400} keyExtractor={(row) => row.id}>
+ *   {(row) => <Row data={row} />}
+ * </VirtualFor>
+ *
+ * @example
+ * // Measured item size, itemSize is the estimate | 测量实际高度，itemSize 为预估值
+ * <VirtualFor each={messages} itemSize={60} measure height="100%">
+ *   {(message) => <Message {...message} />}
+ * </VirtualFor>
+ *
+ * @example
+ * // External scroll container | 外部滚动容器
+ * <div ref={scrollRef} style={{ overflow: "auto", height: 600 }}>
+ *   <Header />
+ *   <VirtualFor each={items} itemSize={40} scrollRef={scrollRef}>
+ *     {(item) => <Item {...item} />}
+ *   </VirtualFor>
+ * </div>
+ */
+export function VirtualFor<T>({
+    each,
+    children,
+    keyExtractor,
+    fallback = null,
+    itemSize,
+    measure = false,
+    overscan = 3,
+    height,
+    scrollRef,
+    className,
+    style,
+}: VirtualForProps<T>): ReactNode {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+    // 可见区域，未能读取容器高度时使用 height
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: typeof height === "number" ? height : 0 });
+    // 已测量的元素高度，按 key 保存，数组变化后仍对应同一元素
+    const measuredRef = useRef(new Map<string, number>());
+    // 测量结果变化时递增，用于重新计算偏移量
+    const [measureVersion, setMeasureVersion] = useState(0);
+    const observerRef = useRef<ResizeObserver | null>(null);
+    // 正在观察的元素，离开可见范围后取消观察
+    const observedRef = useRef(new Set<Element>());
+
+    const count = each?.length ?? 0;
+    // 为空时渲染 fallback，没有滚动容器
+    const isEmpty = count === 0;
+
+    const getKey = useCallback(
+        (item: T, index: number) => (keyExtractor ? keyExtractor(item, index) : index),
+        [keyExtractor]
+    );
+
+    const getSize = useCallback(
+        (index: number) => {
+            if (!each) {
+                return 0;
+            }
+            const measured = measure ? measuredRef.current.get(String(getKey(each[index], index))) : undefined;
+            if (measured !== undefined) {
+                return measured;
+            }
+            return typeof itemSize === "function" ? itemSize(each[index], index) : itemSize;
+        },
+        [each, itemSize, measure, getKey]
+    );
+
+    // 每个元素的起始偏移量，最后一项为总高度
+    // biome-ignore lint/correctness/useExhaustiveDependencies: measureVersion 变化时需要读取新的测量结果
+    const offsets = useMemo(() => {
+        const result = [0];
+        for (let index = 0; index < count; index++) {
+            result.push(result[index] + getSize(index));
+        }
+        return result;
+    }, [count, getSize, measureVersion]);
+
+    // 监听滚动和容器尺寸变化
+    // biome-ignore lint/correctness/useExhaustiveDependencies: 从 fallback 切换到列表时需要重新读取容器
+    useEffect(() => {
+        const container = scrollRef ? scrollRef.current : containerRef.current;
+        if (!container) {
+            return;
+        }
+
+        const update = () => {
+            // 列表在外部滚动容器中的偏移
+            const listOffset =
+                scrollRef && listRef.current
+                    ? listRef.current.getBoundingClientRect().top -
+                      container.getBoundingClientRect().top +
+                      container.scrollTop
+                    : 0;
+            setViewport((prev) => {
+                const scrollTop = container.scrollTop - listOffset;
+                const nextHeight = container.clientHeight || prev.height;
+                return scrollTop === prev.scrollTop && nextHeight === prev.height
+                    ? prev
+                    : { scrollTop, height: nextHeight };
+            });
+        };
+
+        update();
+        container.addEventListener("scroll", update, { passive: true });
+        const observer = typeof ResizeObserver === "undefined" ? undefined : new ResizeObserver(update);
+        observer?.observe(container);
+
+        return () => {
+            container.removeEventListener("scroll", update);
+            observer?.disconnect();
+        };
+    }, [scrollRef, isEmpty]);
+
+    // 测量已渲染元素的实际高度
+    // biome-ignore lint/correctness/useExhaustiveDependencies: 从 fallback 切换到列表时需要重新观察元素
+    useEffect(() => {
+        if (!measure || typeof ResizeObserver === "undefined") {
+            return;
+        }
+        const observer = new ResizeObserver((entries) => {
+            let changed = false;
+            for (const entry of entries) {
+                const element = entry.target as HTMLElement;
+                // 忽略已移除的元素
+                if (!element.isConnected) {
+                    continue;
+                }
+                const key = element.dataset.key ?? "";
+                const size = element.getBoundingClientRect().height;
+                if (measuredRef.current.get(key) !== size) {
+                    measuredRef.current.set(key, size);
+                    changed = true;
+                }
+            }
+            if (changed) {
+                setMeasureVersion((version) => version + 1);
+            }
+        });
+        observerRef.current = observer;
+        observedRef.current = new Set();
+
+        return () => {
+            observer.disconnect();
+            observerRef.current = null;
+        };
+    }, [measure, isEmpty]);
+
+    // 每次渲染后只观察当前渲染的元素，已移除的元素取消观察，避免保留大量已分离的节点
+    useEffect(() => {
+        const observer = observerRef.current;
+        if (!observer) {
+            return;
+        }
+        const rendered = new Set<Element>(listRef.current?.children ?? []);
+        const observed = observedRef.current;
+        for (const element of observed) {
+            if (!rendered.has(element)) {
+                observer.unobserve(element);
+                observed.delete(element);
+            }
+        }
+        for (const element of rendered) {
+            if (!observed.has(element)) {
+                observer.observe(element);
+                observed.add(element);
+            }
+        }
+    });
+
+    if (!each || isEmpty) {
+        return fallback;
+    }
+
+    // 可见范围加上 overscan
+    const start = Math.max(0, findIndex(offsets, viewport.scrollTop) - overscan);
+    const end = Math.min(count, findIndex(offsets, viewport.scrollTop + viewport.height) + 1 + overscan);
+
+    const items: ReactNode[] = [];
+    for (let index = start; index < end; index++) {
+        const item = each[index];
+        const key = getKey(item, index);
+        items.push(
+            <div
+                key={key}
+                data-key={key}
+                style={{
+                    position: "absolute",
+                    top: offsets[index],
+                    left: 0,
+                    right: 0,
+                    // 未测量时使用固定高度，避免内容重叠
+                    height: measure ? undefined : offsets[index + 1] - offsets[index],
+                }}
+            >
+                {children(item, index, each)}
+            </div>
+        );
+    }
+
+    const list = (
+        <div ref={listRef} style={{ position: "relative", height: offsets[count] }}>
+            {items}
+        </div>
+    );
+
+    if (scrollRef) {
+        return list;
+    }
+
+    return (
+        <div ref={containerRef} className={className} style={{ overflowY: "auto", height, ...style }}>
+            {list}
+        </div>
+    );
+}
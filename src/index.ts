@@ -1,7 +1,64 @@
-export { Await, type AwaitProps } from "./Await";
+export {
+    Await,
+    type AwaitBackoff,
+    type AwaitProps,
+    type AwaitRenderHelpers,
+    type PromiseState,
+    type SettledPromiseState,
+    TimeoutError,
+    type UseAwaitOptions,
+    type UseAwaitResult,
+    useAwait,
+} from "./Await";
+export {
+    AwaitAll,
+    type AwaitAllInput,
+    type AwaitAllProps,
+    type AwaitAllSettled,
+    type AwaitAllValues,
+} from "./AwaitAll";
+export {
+    AllRejectedError,
+    AwaitAny,
+    type AwaitAnyProps,
+    type AwaitAnySource,
+    type AwaitAnyValue,
+} from "./AwaitAny";
+export {
+    AwaitCache,
+    type AwaitCacheOptions,
+    type AwaitCacheProps,
+    AwaitCacheStore,
+    useAwaitCache,
+} from "./AwaitCache";
+export {
+    AwaitHydrationScript,
+    type AwaitHydrationScriptProps,
+    AwaitServerCache,
+    hydrateAwaitCache,
+} from "./AwaitHydration";
+export { AwaitStream, type AwaitStreamProps } from "./AwaitStream";
+export { AwaitSuspense, type AwaitSuspenseProps } from "./AwaitSuspense";
 export { ClientOnly, type ClientOnlyProps } from "./ClientOnly";
 export { Dynamic, type DynamicProps } from "./Dynamic";
-export { ErrorBoundary, type ErrorBoundaryProps } from "./ErrorBoundary";
+export {
+    ErrorBoundary,
+    type ErrorBoundaryProps,
+    type ErrorBoundaryResetDetails,
+    type ErrorBoundaryResetEvent,
+    type ErrorBoundaryRetryInfo,
+    type ErrorBoundaryRetryOptions,
+    type UseErrorBoundaryResult,
+    useErrorBoundary,
+    withErrorBoundary,
+} from "./ErrorBoundary";
+export {
+    type ErrorReport,
+    type ErrorReporter,
+    ErrorReporterProvider,
+    type ErrorReporterProviderProps,
+    MemoryErrorReporter,
+} from "./ErrorReporter";
 export { For, type ForProps } from "./For";
 export { Once, type OnceProps } from "./Once";
 export { QueryBoundary, type QueryBoundaryProps, type QueryResult } from "./QueryBoundary";
@@ -9,4 +66,5 @@ export { Repeat, type RepeatProps } from "./Repeat";
 export { Show, type ShowProps } from "./Show";
 export { Split, type SplitProps } from "./Split";
 export { Default, type DefaultProps, Match, type MatchProps, Switch, type SwitchProps } from "./Switch";
+export { VirtualFor, type VirtualForProps } from "./VirtualFor";
 export { Visible, type VisibleProps } from "./Visible";